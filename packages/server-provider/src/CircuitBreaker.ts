@@ -0,0 +1,115 @@
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /**
+   * Number of consecutive failed requests that trips the breaker open.
+   * Default: 5
+   */
+  failureThreshold?: number;
+
+  /**
+   * Time in milliseconds the breaker stays open before letting a trial
+   * request through (half-open).
+   * Default: 30000 (30 seconds)
+   */
+  cooldown?: number;
+
+  /**
+   * Number of concurrent trial requests allowed while half-open.
+   * Default: 1
+   */
+  halfOpenMaxRequests?: number;
+}
+
+/**
+ * Consecutive-failure circuit breaker.
+ *
+ * - closed: requests flow; `failureThreshold` consecutive failures open it
+ * - open: requests are rejected until `cooldown` has elapsed
+ * - half-open: up to `halfOpenMaxRequests` trial requests are allowed; a
+ *   success closes the breaker, a failure opens it again
+ */
+export class CircuitBreaker {
+  private options: Required<CircuitBreakerOptions>;
+  private onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+  private currentState: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private halfOpenRequests = 0;
+
+  constructor(
+    options: CircuitBreakerOptions = {},
+    onStateChange?: (state: CircuitState, previous: CircuitState) => void
+  ) {
+    this.options = {
+      failureThreshold: 5,
+      cooldown: 30000,
+      halfOpenMaxRequests: 1,
+      ...options,
+    };
+    this.onStateChange = onStateChange;
+  }
+
+  get state(): CircuitState {
+    return this.currentState;
+  }
+
+  /**
+   * Check whether a request may be made now. Moves an open breaker to
+   * half-open once the cooldown has elapsed. Every allowed request must be
+   * followed by recordSuccess() or recordFailure().
+   */
+  allowRequest(): boolean {
+    if (this.currentState === "open") {
+      if (Date.now() - this.openedAt < this.options.cooldown) {
+        return false;
+      }
+      this.transition("half-open");
+    }
+
+    if (this.currentState === "half-open") {
+      if (this.halfOpenRequests >= this.options.halfOpenMaxRequests) {
+        return false;
+      }
+      this.halfOpenRequests++;
+    }
+
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.currentState !== "closed") {
+      this.transition("closed");
+    }
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+
+    if (
+      this.currentState === "half-open" ||
+      (this.currentState === "closed" &&
+        this.consecutiveFailures >= this.options.failureThreshold)
+    ) {
+      this.openedAt = Date.now();
+      this.transition("open");
+    }
+  }
+
+  /**
+   * Return to the closed state without notifying listeners.
+   */
+  reset(): void {
+    this.currentState = "closed";
+    this.consecutiveFailures = 0;
+    this.halfOpenRequests = 0;
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.currentState;
+    this.currentState = state;
+    this.halfOpenRequests = 0;
+    this.onStateChange?.(state, previous);
+  }
+}
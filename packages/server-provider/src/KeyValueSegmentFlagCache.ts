@@ -0,0 +1,113 @@
+import type { SegmentFlagCache, SegmentFlagCacheEntry, VisitorStatus } from "./SegmentFlagCache";
+
+/**
+ * Minimal string key-value client. Thin wrappers around Redis, Memcached or
+ * similar clients satisfy this interface.
+ *
+ * @example
+ * ```typescript
+ * const client: KeyValueClient = {
+ *   get: (key) => redis.get(key),
+ *   set: (key, value, ttl) => redis.set(key, value, { PX: ttl }),
+ *   delete: (key) => redis.del(key),
+ * };
+ * ```
+ */
+export interface KeyValueClient {
+  get(key: string): Promise<string | null | undefined>;
+
+  /**
+   * Store a value that expires after `ttl` milliseconds.
+   */
+  set(key: string, value: string, ttl: number): Promise<unknown>;
+
+  delete(key: string): Promise<unknown>;
+
+  /**
+   * Delete every key starting with `prefix`.
+   * Optional: without it, `clear()` is a no-op and entries expire by TTL.
+   */
+  deleteByPrefix?(prefix: string): Promise<unknown>;
+}
+
+export interface KeyValueSegmentFlagCacheOptions {
+  /**
+   * Prefix added to every key written by the cache.
+   * Default: "pendo:segmentflags:"
+   */
+  keyPrefix?: string;
+}
+
+/**
+ * Reference SegmentFlagCache backed by a generic key-value client, for sharing
+ * segment membership across processes.
+ *
+ * Entries are stored as JSON. Values that can't be parsed are treated as
+ * cache misses. The client is owned by the caller: `close()` does not
+ * disconnect it, and closing one provider doesn't clear the shared store.
+ */
+export class KeyValueSegmentFlagCache implements SegmentFlagCache {
+  private client: KeyValueClient;
+  private keyPrefix: string;
+
+  constructor(client: KeyValueClient, options: KeyValueSegmentFlagCacheOptions = {}) {
+    this.client = client;
+    this.keyPrefix = options.keyPrefix ?? "pendo:segmentflags:";
+  }
+
+  async get(key: string): Promise<SegmentFlagCacheEntry | undefined> {
+    const raw = await this.client.get(this.keyPrefix + key);
+    if (raw === null || raw === undefined) {
+      return undefined;
+    }
+
+    return parseEntry(raw);
+  }
+
+  async set(key: string, entry: SegmentFlagCacheEntry, ttl: number): Promise<void> {
+    await this.client.set(this.keyPrefix + key, JSON.stringify(entry), ttl);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.delete(this.keyPrefix + key);
+  }
+
+  async clear(): Promise<void> {
+    if (this.client.deleteByPrefix) {
+      await this.client.deleteByPrefix(this.keyPrefix);
+    }
+  }
+
+  async close(): Promise<void> {
+    // The client is shared and owned by the caller
+  }
+}
+
+const VISITOR_STATUSES: VisitorStatus[] = ["unknown", "optedOut"];
+
+function parseEntry(raw: string): SegmentFlagCacheEntry | undefined {
+  try {
+    const entry = JSON.parse(raw) as Partial<SegmentFlagCacheEntry>;
+    if (
+      Array.isArray(entry.flags) &&
+      entry.flags.every((flag) => typeof flag === "string") &&
+      typeof entry.expiresAt === "number"
+    ) {
+      const parsed: SegmentFlagCacheEntry = { flags: entry.flags, expiresAt: entry.expiresAt };
+
+      const visitorStatus = VISITOR_STATUSES.find((status) => status === entry.visitorStatus);
+      if (visitorStatus) {
+        parsed.visitorStatus = visitorStatus;
+      }
+      if (typeof entry.fetchedAt === "number") {
+        parsed.fetchedAt = entry.fetchedAt;
+      }
+
+      return parsed;
+    }
+  } catch {
+    // Fall through to a cache miss
+  }
+
+  return undefined;
+}
@@ -0,0 +1,267 @@
+import type { PendoLogger } from "./logger";
+
+/**
+ * Segment flags served in offline mode, by visitor and account.
+ *
+ * Patterns match the whole visitor or account ID; "*" matches any run of
+ * characters. A visitor gets the default flags plus the flags of every
+ * visitor and account pattern it matches.
+ *
+ * @example
+ * ```json
+ * {
+ *   "default": ["new-checkout-flow"],
+ *   "visitors": { "qa-*": ["beta-testers"], "user-123": ["premium-customers"] },
+ *   "accounts": { "acme": ["enterprise"] }
+ * }
+ * ```
+ */
+export interface LocalFlags {
+  /**
+   * Flags for every visitor.
+   */
+  default?: string[];
+
+  /**
+   * Visitor ID pattern to flags.
+   */
+  visitors?: Record<string, string[]>;
+
+  /**
+   * Account ID pattern to flags.
+   */
+  accounts?: Record<string, string[]>;
+}
+
+/**
+ * A file holding local flags. The provider doesn't touch the file system
+ * itself, so it runs where there's none; on Node.js, create one with
+ * `localFlagsFile(path)` from `@pendo/openfeature-server-provider/node`.
+ */
+export interface LocalFlagsFile {
+  /**
+   * Path of the file, to pick the format and name it in errors and logs.
+   */
+  path: string;
+
+  /**
+   * Read the file's contents.
+   */
+  read(): Promise<string>;
+
+  /**
+   * Call `onChange` when the file changes, checking every `interval`
+   * milliseconds. Required for `watch`.
+   *
+   * @returns A function that stops watching
+   */
+  watch?(onChange: () => void, interval: number): () => void;
+}
+
+export interface LocalFlagSourceOptions {
+  /**
+   * Flags to serve. Set either this or `file`.
+   */
+  flags?: LocalFlags;
+
+  /**
+   * File holding the flags: JSON, or any format `parse` reads (e.g. YAML).
+   */
+  file?: LocalFlagsFile;
+
+  /**
+   * Parser for the file's contents. Required for YAML files, e.g.
+   * `parse: (text) => yaml.load(text)`.
+   * Default: JSON.parse
+   */
+  parse?: (text: string) => unknown;
+
+  /**
+   * Reload the file when it changes.
+   * Default: false
+   */
+  watch?: boolean;
+
+  /**
+   * Interval in milliseconds at which a watched file is checked for changes.
+   * Default: 1000
+   */
+  watchInterval?: number;
+}
+
+interface FlagRule {
+  pattern: RegExp;
+  flags: string[];
+}
+
+interface CompiledFlags {
+  default: string[];
+  visitors: FlagRule[];
+  accounts: FlagRule[];
+}
+
+/**
+ * Serves segment flags from an in-memory object or a local file instead of
+ * the Pendo API, for development and CI environments without access to it.
+ */
+export class LocalFlagSource {
+  private options: LocalFlagSourceOptions;
+  private logger: PendoLogger;
+  private onChange?: () => void;
+  private data: CompiledFlags = { default: [], visitors: [], accounts: [] };
+  private unwatch: (() => void) | null = null;
+
+  /**
+   * @throws Error if the options don't name exactly one source, name a YAML
+   * file without a parser, or watch a file that can't be watched
+   */
+  constructor(options: LocalFlagSourceOptions, logger: PendoLogger, onChange?: () => void) {
+    const file = options.file;
+    if ((options.flags === undefined) === (file === undefined)) {
+      throw new Error("localFlags requires either flags or file");
+    }
+    if (file && /\.ya?ml$/i.test(file.path) && !options.parse) {
+      throw new Error(`localFlags.parse is required to read YAML file "${file.path}"`);
+    }
+    if (file && options.watch && !file.watch) {
+      throw new Error(`localFlags.watch is set but file "${file.path}" can't be watched`);
+    }
+
+    this.options = options;
+    this.logger = logger;
+    this.onChange = onChange;
+  }
+
+  /**
+   * Load the flags and start watching the file, if enabled.
+   *
+   * @throws Error if the file can't be read or doesn't hold valid flags
+   */
+  async load(): Promise<void> {
+    const file = this.options.file;
+    if (!file) {
+      this.data = compileFlags(this.options.flags, "localFlags.flags");
+      return;
+    }
+
+    this.data = await this.readFile(file);
+
+    if (this.options.watch && file.watch && !this.unwatch) {
+      this.unwatch = file.watch(() => {
+        void this.reload(file);
+      }, this.options.watchInterval ?? 1000);
+    }
+  }
+
+  /**
+   * Segment flags for a visitor.
+   */
+  getFlags(visitorId: string, accountId?: string): string[] {
+    const flags = new Set(this.data.default);
+    for (const rule of this.data.visitors) {
+      if (rule.pattern.test(visitorId)) {
+        rule.flags.forEach((flag) => flags.add(flag));
+      }
+    }
+    if (accountId) {
+      for (const rule of this.data.accounts) {
+        if (rule.pattern.test(accountId)) {
+          rule.flags.forEach((flag) => flags.add(flag));
+        }
+      }
+    }
+    return [...flags];
+  }
+
+  /**
+   * Stop watching the file.
+   */
+  async close(): Promise<void> {
+    this.unwatch?.();
+    this.unwatch = null;
+  }
+
+  /**
+   * Reload a watched file. Invalid contents are logged and the previous flags
+   * kept, so a half-saved file doesn't take flags away.
+   */
+  private async reload(file: LocalFlagsFile): Promise<void> {
+    try {
+      this.data = await this.readFile(file);
+    } catch (error) {
+      this.logger.error("Failed to reload local flags", { path: file.path, error });
+      return;
+    }
+
+    this.logger.info("Reloaded local flags", { path: file.path });
+    this.onChange?.();
+  }
+
+  private async readFile(file: LocalFlagsFile): Promise<CompiledFlags> {
+    const path = file.path;
+    const text = await file.read();
+
+    let flags: unknown;
+    try {
+      flags = (this.options.parse ?? JSON.parse)(text);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to parse local flags file "${path}": ${reason}`);
+    }
+
+    return compileFlags(flags, `"${path}"`);
+  }
+}
+
+/**
+ * Validate local flags and compile their patterns.
+ *
+ * @throws Error naming the first invalid field
+ */
+function compileFlags(value: unknown, source: string): CompiledFlags {
+  if (!isRecord(value)) {
+    throw new Error(`Local flags in ${source} must be an object`);
+  }
+
+  return {
+    default: toFlagList(value.default ?? [], `${source} default`),
+    visitors: toRules(value.visitors, `${source} visitors`),
+    accounts: toRules(value.accounts, `${source} accounts`),
+  };
+}
+
+function toRules(value: unknown, name: string): FlagRule[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!isRecord(value)) {
+    throw new Error(`Local flags in ${name} must map patterns to flag lists`);
+  }
+
+  return Object.entries(value).map(([pattern, flags]) => ({
+    pattern: toPattern(pattern),
+    flags: toFlagList(flags, `${name}["${pattern}"]`),
+  }));
+}
+
+function toFlagList(value: unknown, name: string): string[] {
+  if (!Array.isArray(value) || !value.every((flag) => typeof flag === "string")) {
+    throw new Error(`Local flags in ${name} must be a list of flag keys`);
+  }
+  return value;
+}
+
+/**
+ * Compile an ID pattern where "*" matches any run of characters.
+ */
+function toPattern(pattern: string): RegExp {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,153 @@
+export interface LruCacheOptions<V> {
+  /**
+   * Maximum number of entries kept in the cache.
+   */
+  maxEntries: number;
+
+  /**
+   * Approximate memory budget in bytes. Entries are evicted (least recently
+   * used first) until the total estimated size fits.
+   * Default: unbounded (only maxEntries applies)
+   */
+  maxSize?: number;
+
+  /**
+   * Estimate the size of an entry in bytes. Only used when maxSize is set.
+   */
+  sizeOf?: (key: string, value: V) => number;
+}
+
+interface LruEntry<V> {
+  value: V;
+  expiresAt: number;
+  size: number;
+}
+
+/**
+ * Size-bounded, TTL-aware LRU cache.
+ *
+ * Relies on Map insertion order: the first key is always the least recently
+ * used one, and reads move the entry to the end.
+ */
+export class LruCache<V> {
+  private entries: Map<string, LruEntry<V>> = new Map();
+  private totalSize = 0;
+  private readonly maxEntries: number;
+  private readonly maxSize: number;
+  private readonly sizeOf: (key: string, value: V) => number;
+
+  constructor(options: LruCacheOptions<V>) {
+    if (!(options.maxEntries > 0)) {
+      throw new Error("LruCache maxEntries must be greater than 0");
+    }
+
+    this.maxEntries = options.maxEntries;
+    this.maxSize = options.maxSize ?? Infinity;
+    this.sizeOf = options.sizeOf ?? estimateSize;
+  }
+
+  /**
+   * Number of entries currently held, including expired entries that have not
+   * been swept yet.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Approximate size in bytes of all entries currently held.
+   */
+  get estimatedSize(): number {
+    return this.totalSize;
+  }
+
+  /**
+   * Get an entry and mark it as most recently used.
+   * Expired entries are removed and reported as missing.
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Store an entry for `ttl` milliseconds, evicting least recently used
+   * entries if the cache is over its limits.
+   */
+  set(key: string, value: V, ttl: number): void {
+    this.delete(key);
+
+    const size = this.maxSize === Infinity ? 0 : this.sizeOf(key, value);
+    if (size > this.maxSize) {
+      // Would evict everything else and still not fit
+      return;
+    }
+
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl, size });
+    this.totalSize += size;
+    this.evict();
+  }
+
+  delete(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return false;
+    }
+
+    this.totalSize -= entry.size;
+    return this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalSize = 0;
+  }
+
+  /**
+   * Remove all expired entries.
+   * @returns The number of entries removed
+   */
+  prune(): number {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.maxEntries || this.totalSize > this.maxSize) {
+      const oldest = this.entries.keys().next();
+      if (oldest.done) {
+        return;
+      }
+      this.delete(oldest.value);
+    }
+  }
+}
+
+/**
+ * Rough byte estimate: UTF-16 string length of the key and JSON-serialized
+ * value, plus a fixed per-entry overhead for the Map slot and wrapper object.
+ */
+function estimateSize(key: string, value: unknown): number {
+  const ENTRY_OVERHEAD = 64;
+  return ENTRY_OVERHEAD + (key.length + (JSON.stringify(value)?.length ?? 0)) * 2;
+}
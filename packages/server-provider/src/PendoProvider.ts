@@ -3,24 +3,144 @@ import type {
   ProviderMetadata,
   ResolutionDetails,
   EvaluationContext,
+  FlagMetadata,
+  FlagValueType,
   JsonValue,
   Hook,
   TrackingEventDetails,
 } from "@openfeature/server-sdk";
-import { ServerProviderStatus, ErrorCode } from "@openfeature/server-sdk";
+import {
+  ServerProviderStatus,
+  ErrorCode,
+  InvalidContextError,
+  OpenFeatureError,
+  OpenFeatureEventEmitter,
+  ParseError,
+  ProviderEvents,
+  ProviderNotReadyError,
+  TargetingKeyMissingError,
+  TypeMismatchError,
+} from "@openfeature/server-sdk";
 import { encodeJzb } from "./jzb";
+import { CircuitBreaker } from "./CircuitBreaker";
+import type { CircuitBreakerOptions, CircuitState } from "./CircuitBreaker";
+import {
+  CircuitOpenError,
+  EvaluationAbortedError,
+  JzbError,
+  PendoApiError,
+  PendoTimeoutError,
+} from "./errors";
+import { DEFAULT_RETRY_POLICY, parseRetryAfter, withRetry } from "./retry";
+import type { RetryOptions, RetryPolicy } from "./retry";
+import { createLogger } from "./logger";
+import type { LoggerOptions, PendoLogger } from "./logger";
+import { transportFetch } from "./transport";
+import type { TransportOptions } from "./transport";
+import { TrackEventQueue } from "./TrackEventQueue";
+import { LocalFlagSource } from "./LocalFlagSource";
+import type { LocalFlagSourceOptions } from "./LocalFlagSource";
+import {
+  isValueOfType,
+  matchesShape,
+  matchVariant,
+  validateFlagDefinitions,
+} from "./flagDefinitions";
+import type { FlagDefinition, FlagDefinitions, TypeCheckMode } from "./flagDefinitions";
+import type { PendoBootstrap } from "./bootstrap";
+import { createIdentityResolver } from "./identity";
+import type { IdentityResolver, PendoIdentity } from "./identity";
+import { extractMetadata, hashMetadata } from "./metadata";
+import type { ForwardedMetadata, MetadataForwardingOptions } from "./metadata";
+import { normalizeUrl } from "./url";
+import type { UrlNormalizationOptions } from "./url";
+import { MemorySegmentFlagCache } from "./SegmentFlagCache";
+import type { SegmentFlagCache, SegmentFlagCacheEntry, VisitorStatus } from "./SegmentFlagCache";
+
+/**
+ * Segment flags returned by Pendo for a visitor.
+ */
+type SegmentFlags = Omit<SegmentFlagCacheEntry, "expiresAt">;
+
+interface SegmentFlagsResult extends SegmentFlags {
+  stale: boolean;
+  cacheHit: boolean;
+}
+
+/**
+ * Resolution reason and flag metadata reported for each visitor status.
+ */
+const VISITOR_STATUS_DETAILS: Record<
+  VisitorStatus,
+  { reason: string; flagMetadata: FlagMetadata }
+> = {
+  unknown: { reason: "VISITOR_UNKNOWN", flagMetadata: { visitorUnknown: true } },
+  optedOut: { reason: "VISITOR_OPTED_OUT", flagMetadata: { visitorOptedOut: true } },
+};
+
+/**
+ * Who and where segment flags are requested for.
+ */
+interface SegmentFlagRequest {
+  visitorId: string;
+  accountId?: string;
+  url: string;
+  metadata?: ForwardedMetadata;
+}
+
+interface PendoProviderBaseOptions extends LoggerOptions, TransportOptions {
+  /**
+   * Pendo API key for server-side evaluation. Required unless localFlags is
+   * set.
+   */
+  apiKey?: string;
+
+  /**
+   * The URL of the page being evaluated when the evaluation context has no
+   * URL. Required for server-side evaluation since there's no browser context,
+   * unless localFlags is set.
+   */
+  defaultUrl?: string;
+
+  /**
+   * Evaluation context attribute holding the URL of the page being rendered.
+   * Relative URLs are resolved against defaultUrl.
+   * Default: "url"
+   */
+  urlAttribute?: string;
+
+  /**
+   * How the Pendo visitor and account IDs are derived from the evaluation
+   * context: attribute paths or a function. Pass the same value to
+   * PendoTelemetryHook so events are attributed consistently.
+   * Default: { visitorId: "targetingKey", accountId: "accountId" }
+   */
+  identityResolver?: IdentityResolver;
 
-export interface PendoProviderOptions {
   /**
-   * Pendo API key for server-side evaluation.
+   * How context URLs are normalized before being sent to Pendo and used in
+   * the cache key. Stripping more of the URL improves the cache hit rate;
+   * keep any query parameters your segments depend on.
+   * Default: { stripHash: true, stripQuery: true }
    */
-  apiKey: string;
+  urlNormalization?: UrlNormalizationOptions;
 
   /**
-   * The URL of the page being evaluated. Required for server-side evaluation
-   * since there's no browser context.
+   * Forward visitor/account metadata from the evaluation context to Pendo, so
+   * metadata segments can be evaluated before the metadata reaches Pendo
+   * (e.g. for brand-new visitors). Forwarded metadata is part of the cache key.
+   * Default: disabled
    */
-  defaultUrl: string;
+  metadataForwarding?: MetadataForwardingOptions;
+
+  /**
+   * Offline mode: serve segment flags from an in-memory object or a local
+   * JSON/YAML file instead of the Pendo API. Caching, reasons and events work
+   * as with the API; apiKey and defaultUrl aren't required, and page URLs are
+   * ignored.
+   * Default: disabled
+   */
+  localFlags?: LocalFlagSourceOptions;
 
   /**
    * Pendo data host URL.
@@ -28,22 +148,199 @@ export interface PendoProviderOptions {
    */
   baseUrl?: string;
 
+  /**
+   * Typed variants for flags, keyed by flag key. Flags without a definition
+   * resolve from the segment flag of the same name: true/false, "on"/"off",
+   * 1/0 or { enabled }.
+   * Default: {}
+   */
+  flagDefinitions?: FlagDefinitions;
+
+  /**
+   * How resolved values are checked against the requested type. In strict
+   * mode, string, number and object evaluations of flags without a definition
+   * return TYPE_MISMATCH, as do object variants that don't have the shape of
+   * the default value.
+   * Default: "lenient"
+   */
+  typeCheck?: TypeCheckMode;
+
   /**
    * Cache TTL in milliseconds for segment membership.
    * Default: 60000 (1 minute)
    */
   cacheTtl?: number;
 
+  /**
+   * Cache TTL in milliseconds for visitors not yet known to Pendo (HTTP 202).
+   * A short TTL lets new visitors pick up their flags quickly.
+   * Default: cacheTtl
+   */
+  unknownVisitorCacheTtl?: number;
+
+  /**
+   * Cache TTL in milliseconds for visitors who have opted out or are blocked
+   * (HTTP 451).
+   * Default: cacheTtl
+   */
+  optedOutVisitorCacheTtl?: number;
+
+  /**
+   * Stale-while-revalidate window in milliseconds on top of cacheTtl.
+   * Expired entries younger than cacheTtl + staleTtl are returned immediately
+   * with reason "STALE" while a background refresh runs.
+   * Default: 0 (disabled)
+   */
+  staleTtl?: number;
+
+  /**
+   * How long in milliseconds past cacheTtl the last known flags keep being
+   * served (with reason "STALE") when the Pendo API errors, instead of
+   * falling back to default values.
+   * Default: 0 (disabled)
+   */
+  maxStaleOnError?: number;
+
+  /**
+   * Store for cached segment flags, e.g. a KeyValueSegmentFlagCache shared
+   * between processes.
+   * Default: an in-memory LRU cache configured by maxCacheEntries,
+   * maxCacheSize and cacheSweepInterval
+   */
+  cache?: SegmentFlagCache;
+
+  /**
+   * Maximum number of visitor/account entries kept in the cache.
+   * Least recently used entries are evicted first.
+   * Default: 10000
+   */
+  maxCacheEntries?: number;
+
+  /**
+   * Approximate memory budget for the cache in bytes.
+   * Default: unbounded (only maxCacheEntries applies)
+   */
+  maxCacheSize?: number;
+
+  /**
+   * Interval in milliseconds at which expired cache entries are swept.
+   * Set to 0 to disable sweeping (expired entries are still dropped on read).
+   * Default: 60000 (1 minute)
+   */
+  cacheSweepInterval?: number;
+
+  /**
+   * Timeout in milliseconds for a single request to the Pendo data API.
+   * Timed out requests fail with a PendoTimeoutError and count as retryable
+   * failures.
+   * Default: 10000 (10 seconds)
+   */
+  requestTimeout?: number;
+
+  /**
+   * Longest segment flag request URL sent as a GET. Longer requests, e.g.
+   * with forwarded metadata or long page URLs, are sent as a POST with the
+   * JZB payload in a form-encoded body instead, to stay within proxy and
+   * server URL limits.
+   * Default: 8192
+   */
+  maxUrlLength?: number;
+
+  /**
+   * Retry policy for segment flag requests. Retries use exponential backoff
+   * and honor the Retry-After header on 429/503 responses.
+   * Default: no retries
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Time budget in milliseconds for fetching segment flags during an
+   * evaluation. Retries that would not start before the budget runs out are
+   * skipped and the last error is returned.
+   * Default: unbounded
+   */
+  evaluationTimeout?: number;
+
+  /**
+   * Circuit breaker around the Pendo data API. While open, evaluations skip
+   * the API and resolve from any flags still cached (reason "STALE", see
+   * staleTtl and maxStaleOnError) or the default value, and the provider
+   * reports an ERROR status until it recovers.
+   * Default: disabled
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+
   /**
    * Track event secret for server-side track events.
-   * Required to use the track() method.
+   * Required to use the track() method unless eventQueue is provided.
    */
   trackEventSecret?: string;
+
+  /**
+   * Queue that buffers track events and sends them in the background. Pass the same queue to
+   * PendoTelemetryHook to share one transport.
+   * Default: a TrackEventQueue created from trackEventSecret and baseUrl
+   */
+  eventQueue?: TrackEventQueue;
 }
 
-interface CacheEntry {
+/**
+ * Options for a PendoProvider: apiKey and defaultUrl to evaluate flags with
+ * the Pendo API, or localFlags for offline mode.
+ */
+export type PendoProviderOptions =
+  | (PendoProviderBaseOptions & { apiKey: string; defaultUrl: string })
+  | (PendoProviderBaseOptions & { localFlags: LocalFlagSourceOptions });
+
+/**
+ * Where segment flags came from: "api" for the Pendo data API, "local" for
+ * the `localFlags` source in offline mode.
+ */
+export type FlagSource = "api" | "local";
+
+/**
+ * Every flag for an evaluation context, from `getAllFlags`.
+ */
+export interface AllFlags {
+  /**
+   * Segment flag keys the visitor matched.
+   */
   flags: string[];
-  expiresAt: number;
+
+  /**
+   * Resolution details by flag key, as an evaluation would return them: each
+   * matched segment flag as `true`, and each flagDefinitions entry that
+   * resolves to a variant as that variant's value.
+   */
+  details: Record<string, ResolutionDetails<JsonValue>>;
+
+  metadata: AllFlagsMetadata;
+}
+
+export interface AllFlagsMetadata {
+  /**
+   * Epoch milliseconds at which the flags were fetched. Undefined for cache
+   * entries written without it.
+   */
+  fetchedAt?: number;
+
+  /**
+   * Whether the flags were served from the cache rather than fetched for
+   * this call.
+   */
+  cacheHit: boolean;
+
+  /**
+   * Whether the flags were served from an expired cache entry.
+   */
+  stale: boolean;
+
+  source: FlagSource;
+
+  /**
+   * Set when Pendo returned no flags because of the visitor's status.
+   */
+  visitorStatus?: VisitorStatus;
 }
 
 /**
@@ -80,35 +377,128 @@ export class PendoProvider implements Provider {
     name: "pendo-server-provider",
   };
 
-  readonly rulesChanged?: () => void;
+  readonly events = new OpenFeatureEventEmitter();
   status: ServerProviderStatus = ServerProviderStatus.NOT_READY;
   hooks?: Hook[];
 
-  private options: Required<Omit<PendoProviderOptions, "trackEventSecret">> & {
-    trackEventSecret?: string;
-  };
-  private cache: Map<string, CacheEntry> = new Map();
+  private options: Required<
+    Omit<
+      PendoProviderBaseOptions,
+      | "apiKey"
+      | "defaultUrl"
+      | "trackEventSecret"
+      | "maxCacheSize"
+      | "unknownVisitorCacheTtl"
+      | "optedOutVisitorCacheTtl"
+      | "identityResolver"
+      | "urlNormalization"
+      | "metadataForwarding"
+      | "cache"
+      | "retry"
+      | "evaluationTimeout"
+      | "circuitBreaker"
+      | "eventQueue"
+      | "localFlags"
+      | keyof LoggerOptions
+      | keyof TransportOptions
+    >
+  > &
+    Pick<
+      PendoProviderBaseOptions,
+      | "apiKey"
+      | "defaultUrl"
+      | "trackEventSecret"
+      | "maxCacheSize"
+      | "unknownVisitorCacheTtl"
+      | "optedOutVisitorCacheTtl"
+      | "urlNormalization"
+      | "metadataForwarding"
+      | "evaluationTimeout"
+    >;
+  private retryPolicy: RetryPolicy;
+  private circuitBreaker: CircuitBreaker | null;
+  private cache: SegmentFlagCache;
+  private localFlagSource: LocalFlagSource | null;
+  private eventQueue: TrackEventQueue | null;
+  private logger: PendoLogger;
+  private transport: TransportOptions;
+  private resolveIdentity: (context: EvaluationContext) => PendoIdentity | undefined;
+  private inflight: Map<string, Promise<SegmentFlags>> = new Map();
 
   constructor(options: PendoProviderOptions) {
     this.options = {
       baseUrl: "https://data.pendo.io",
+      urlAttribute: "url",
+      flagDefinitions: {},
+      typeCheck: "lenient",
       cacheTtl: 60000,
+      staleTtl: 0,
+      maxStaleOnError: 0,
+      maxCacheEntries: 10000,
+      cacheSweepInterval: 60000,
+      requestTimeout: 10000,
+      maxUrlLength: 8192,
       ...options,
     };
+
+    this.logger = createLogger("PendoProvider", options);
+    validateFlagDefinitions(this.options.flagDefinitions);
+    this.transport = { fetch: options.fetch, headers: options.headers };
+    this.resolveIdentity = createIdentityResolver(options.identityResolver);
+
+    this.retryPolicy = {
+      ...DEFAULT_RETRY_POLICY,
+      ...options.retry,
+    };
+
+    this.circuitBreaker = options.circuitBreaker
+      ? new CircuitBreaker(options.circuitBreaker, (state) => this.onCircuitStateChange(state))
+      : null;
+
+    this.localFlagSource = options.localFlags
+      ? new LocalFlagSource(options.localFlags, this.logger, () => this.onLocalFlagsChanged())
+      : null;
+
+    this.eventQueue =
+      options.eventQueue ??
+      (this.options.trackEventSecret
+        ? new TrackEventQueue({
+            trackEventSecret: this.options.trackEventSecret,
+            baseUrl: this.options.baseUrl,
+            fetch: options.fetch,
+            headers: options.headers,
+            logger: options.logger,
+            logLevel: options.logLevel,
+            logDedupeInterval: options.logDedupeInterval,
+          })
+        : null);
+
+    this.cache =
+      options.cache ??
+      new MemorySegmentFlagCache({
+        maxEntries: this.options.maxCacheEntries,
+        maxSize: this.options.maxCacheSize,
+        sweepInterval: this.options.cacheSweepInterval,
+      });
   }
 
   /**
    * Initialize the provider.
    */
   async initialize(): Promise<void> {
-    if (!this.options.apiKey) {
-      throw new Error("Pendo API key is required");
-    }
+    if (this.localFlagSource) {
+      await this.localFlagSource.load();
+    } else {
+      if (!this.options.apiKey) {
+        throw new Error("Pendo API key is required");
+      }
 
-    if (!this.options.defaultUrl) {
-      throw new Error("Pendo defaultUrl is required for server-side evaluation");
+      if (!this.options.defaultUrl) {
+        throw new Error("Pendo defaultUrl is required for server-side evaluation");
+      }
     }
 
+    this.circuitBreaker?.reset();
     this.status = ServerProviderStatus.READY;
   }
 
@@ -117,17 +507,33 @@ export class PendoProvider implements Provider {
    */
   async onClose(): Promise<void> {
     this.status = ServerProviderStatus.NOT_READY;
-    this.cache.clear();
+    this.inflight.clear();
+    this.circuitBreaker?.reset();
+    await this.localFlagSource?.close();
+
+    // Send buffered track events before shutting down
+    await this.eventQueue?.close();
+
+    try {
+      if (this.cache.close) {
+        await this.cache.close();
+      } else {
+        await this.cache.clear();
+      }
+    } catch (error) {
+      this.logger.error("Failed to close segment flag cache", { error });
+    }
   }
 
   /**
    * Track a custom event in Pendo.
    *
-   * This method sends a track event to Pendo's server-side tracking endpoint.
-   * Requires `trackEventSecret` to be configured.
+   * Events are buffered and sent to Pendo's server-side tracking endpoint in
+   * the background. Requires `trackEventSecret` or `eventQueue` to be
+   * configured.
    *
    * @param trackingEventName - The name of the event to track
-   * @param context - Evaluation context containing targetingKey (visitorId) and optional accountId
+   * @param context - Evaluation context the visitor/account are derived from (see identityResolver)
    * @param trackingEventDetails - Optional additional event properties
    */
   track(
@@ -135,38 +541,31 @@ export class PendoProvider implements Provider {
     context: EvaluationContext,
     trackingEventDetails: TrackingEventDetails
   ): void {
-    if (!this.options.trackEventSecret) {
-      console.warn("[PendoProvider] trackEventSecret is required to track events");
+    if (!this.eventQueue) {
+      this.logger.warn("trackEventSecret is required to track events");
       return;
     }
 
-    const visitorId = context.targetingKey;
-    if (!visitorId) {
-      console.warn("[PendoProvider] targetingKey (visitorId) is required to track events");
+    let identity: PendoIdentity | undefined;
+    try {
+      identity = this.resolveIdentity(context);
+    } catch (error) {
+      this.logger.warn("Invalid identity in evaluation context, track event dropped", { error });
       return;
     }
 
-    const accountId = context.accountId as string | undefined;
+    if (!identity) {
+      this.logger.warn("No visitor ID resolved from evaluation context, track event dropped");
+      return;
+    }
 
-    const payload = {
+    this.eventQueue.enqueue({
       type: "track",
       event: trackingEventName,
-      visitorId,
-      accountId,
+      visitorId: identity.visitorId,
+      accountId: identity.accountId,
       timestamp: Date.now(),
       properties: trackingEventDetails,
-    };
-
-    // Fire-and-forget: don't await
-    fetch(`${this.options.baseUrl}/data/track`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-pendo-track-event-secret": this.options.trackEventSecret,
-      },
-      body: JSON.stringify(payload),
-    }).catch((error) => {
-      console.error("[PendoProvider] Failed to track event:", error);
     });
   }
 
@@ -178,32 +577,22 @@ export class PendoProvider implements Provider {
     defaultValue: boolean,
     context: EvaluationContext
   ): Promise<ResolutionDetails<boolean>> {
-    try {
-      const flags = await this.getSegmentFlags(context);
-
-      if (!flags) {
-        return {
-          value: defaultValue,
-          reason: "DEFAULT",
-          variant: "default",
-        };
-      }
+    const definition = this.options.flagDefinitions[flagKey];
+    if (definition) {
+      return this.resolveDefinedFlag(flagKey, defaultValue, context, definition, "boolean");
+    }
 
-      const enabled = flags.includes(flagKey);
+    try {
+      const result = await this.getSegmentFlags(context);
+      const enabled = result.flags.includes(flagKey);
 
       return {
         value: enabled,
-        reason: enabled ? "TARGETING_MATCH" : "DEFAULT",
         variant: enabled ? "on" : "off",
+        ...this.describeResult(enabled, result),
       };
     } catch (error) {
-      console.error("[PendoProvider] Error evaluating flag:", error);
-      return {
-        value: defaultValue,
-        reason: "ERROR",
-        errorCode: ErrorCode.GENERAL,
-        errorMessage: error instanceof Error ? error.message : "Unknown error",
-      };
+      return this.errorResolution(flagKey, defaultValue, error);
     }
   }
 
@@ -215,6 +604,15 @@ export class PendoProvider implements Provider {
     defaultValue: string,
     context: EvaluationContext
   ): Promise<ResolutionDetails<string>> {
+    const definition = this.options.flagDefinitions[flagKey];
+    if (definition) {
+      return this.resolveDefinedFlag(flagKey, defaultValue, context, definition, "string");
+    }
+    if (this.options.typeCheck === "strict") {
+      const error = undefinedFlagTypeMismatch(flagKey, "string");
+      return this.errorResolution(flagKey, defaultValue, error);
+    }
+
     const boolResult = await this.resolveBooleanEvaluation(flagKey, false, context);
 
     if (boolResult.reason === "ERROR") {
@@ -226,11 +624,12 @@ export class PendoProvider implements Provider {
       };
     }
 
-    if (boolResult.reason === "DEFAULT" && !boolResult.value) {
+    if (!boolResult.value) {
       return {
         value: defaultValue,
-        reason: "DEFAULT",
+        reason: boolResult.reason,
         variant: "default",
+        flagMetadata: boolResult.flagMetadata,
       };
     }
 
@@ -238,6 +637,7 @@ export class PendoProvider implements Provider {
       value: boolResult.value ? "on" : "off",
       reason: boolResult.reason,
       variant: boolResult.variant,
+      flagMetadata: boolResult.flagMetadata,
     };
   }
 
@@ -249,6 +649,15 @@ export class PendoProvider implements Provider {
     defaultValue: number,
     context: EvaluationContext
   ): Promise<ResolutionDetails<number>> {
+    const definition = this.options.flagDefinitions[flagKey];
+    if (definition) {
+      return this.resolveDefinedFlag(flagKey, defaultValue, context, definition, "number");
+    }
+    if (this.options.typeCheck === "strict") {
+      const error = undefinedFlagTypeMismatch(flagKey, "number");
+      return this.errorResolution(flagKey, defaultValue, error);
+    }
+
     const boolResult = await this.resolveBooleanEvaluation(flagKey, false, context);
 
     if (boolResult.reason === "ERROR") {
@@ -260,11 +669,12 @@ export class PendoProvider implements Provider {
       };
     }
 
-    if (boolResult.reason === "DEFAULT" && !boolResult.value) {
+    if (!boolResult.value) {
       return {
         value: defaultValue,
-        reason: "DEFAULT",
+        reason: boolResult.reason,
         variant: "default",
+        flagMetadata: boolResult.flagMetadata,
       };
     }
 
@@ -272,6 +682,7 @@ export class PendoProvider implements Provider {
       value: boolResult.value ? 1 : 0,
       reason: boolResult.reason,
       variant: boolResult.variant,
+      flagMetadata: boolResult.flagMetadata,
     };
   }
 
@@ -283,6 +694,15 @@ export class PendoProvider implements Provider {
     defaultValue: T,
     context: EvaluationContext
   ): Promise<ResolutionDetails<T>> {
+    const definition = this.options.flagDefinitions[flagKey];
+    if (definition) {
+      return this.resolveDefinedFlag(flagKey, defaultValue, context, definition, "object");
+    }
+    if (this.options.typeCheck === "strict") {
+      const error = undefinedFlagTypeMismatch(flagKey, "object");
+      return this.errorResolution(flagKey, defaultValue, error);
+    }
+
     const boolResult = await this.resolveBooleanEvaluation(flagKey, false, context);
 
     if (boolResult.reason === "ERROR") {
@@ -294,11 +714,12 @@ export class PendoProvider implements Provider {
       };
     }
 
-    if (boolResult.reason === "DEFAULT" && !boolResult.value) {
+    if (!boolResult.value) {
       return {
         value: defaultValue,
-        reason: "DEFAULT",
+        reason: boolResult.reason,
         variant: "default",
+        flagMetadata: boolResult.flagMetadata,
       };
     }
 
@@ -306,99 +727,715 @@ export class PendoProvider implements Provider {
       value: { enabled: boolResult.value } as unknown as T,
       reason: boolResult.reason,
       variant: boolResult.variant,
+      flagMetadata: boolResult.flagMetadata,
+    };
+  }
+
+  /**
+   * Get every flag for an evaluation context in one call, with the resolution
+   * details each would evaluate to. Uses the same cache, request coalescing
+   * and stale fallback as flag evaluation.
+   *
+   * @throws ProviderNotReadyError, TargetingKeyMissingError or
+   * InvalidContextError for an unusable context, or the API error when no
+   * cached flags can be served
+   */
+  async getAllFlags(context: EvaluationContext): Promise<AllFlags> {
+    const result = await this.getSegmentFlags(context);
+
+    const details: Record<string, ResolutionDetails<JsonValue>> = {};
+    for (const flagKey of result.flags) {
+      details[flagKey] = { value: true, variant: "on", ...this.describeResult(true, result) };
+    }
+
+    for (const [flagKey, definition] of Object.entries(this.options.flagDefinitions)) {
+      const match = matchVariant(flagKey, definition, result.flags);
+      if (match) {
+        details[flagKey] = {
+          value: match.value,
+          variant: match.variant,
+          ...this.describeResult(match.matched, result),
+        };
+      } else {
+        delete details[flagKey];
+      }
+    }
+
+    return {
+      flags: result.flags,
+      details,
+      metadata: {
+        fetchedAt: result.fetchedAt,
+        cacheHit: result.cacheHit,
+        stale: result.stale,
+        source: this.localFlagSource ? "local" : "api",
+        visitorStatus: result.visitorStatus,
+      },
+    };
+  }
+
+  /**
+   * Get the segment flags for an evaluation context as a payload for the web
+   * provider's `bootstrap` option. Serialize it with `serializeBootstrap` or
+   * `bootstrapScript` before inlining it in a page.
+   *
+   * @throws The same errors as getAllFlags
+   */
+  async getBootstrap(context: EvaluationContext): Promise<PendoBootstrap> {
+    const identity = this.resolveIdentity(context);
+    const result = await this.getSegmentFlags(context);
+
+    // getSegmentFlags rejects contexts without an identity
+    const { visitorId, accountId } = identity as PendoIdentity;
+    const bootstrap: PendoBootstrap = { visitorId, flags: result.flags };
+    if (accountId) {
+      bootstrap.accountId = accountId;
+    }
+    if (result.fetchedAt !== undefined) {
+      bootstrap.fetchedAt = result.fetchedAt;
+    }
+
+    return bootstrap;
+  }
+
+  /**
+   * Resolve a flag with a flagDefinitions entry to one of its variants.
+   * Variants whose value doesn't match the requested type resolve with a
+   * TYPE_MISMATCH error.
+   */
+  private async resolveDefinedFlag<T extends JsonValue>(
+    flagKey: string,
+    defaultValue: T,
+    context: EvaluationContext,
+    definition: FlagDefinition,
+    type: FlagValueType
+  ): Promise<ResolutionDetails<T>> {
+    try {
+      const result = await this.getSegmentFlags(context);
+      const match = matchVariant(flagKey, definition, result.flags);
+
+      if (!match) {
+        return {
+          value: defaultValue,
+          variant: "default",
+          ...this.describeResult(false, result),
+        };
+      }
+
+      if (!isValueOfType(match.value, type)) {
+        throw new TypeMismatchError(
+          `Variant "${match.variant}" of flag "${flagKey}" is not a ${type}`
+        );
+      }
+      if (
+        type === "object" &&
+        this.options.typeCheck === "strict" &&
+        !matchesShape(match.value, defaultValue)
+      ) {
+        throw new TypeMismatchError(
+          `Variant "${match.variant}" of flag "${flagKey}" does not match the default value's shape`
+        );
+      }
+
+      return {
+        value: match.value as T,
+        variant: match.variant,
+        ...this.describeResult(match.matched, result),
+      };
+    } catch (error) {
+      return this.errorResolution(flagKey, defaultValue, error);
+    }
+  }
+
+  /**
+   * Reason and flag metadata for a resolved flag.
+   */
+  private describeResult(
+    matched: boolean,
+    result: SegmentFlagsResult
+  ): { reason: string; flagMetadata?: FlagMetadata } {
+    const statusDetails = result.visitorStatus
+      ? VISITOR_STATUS_DETAILS[result.visitorStatus]
+      : undefined;
+
+    let reason = matched ? "TARGETING_MATCH" : statusDetails?.reason ?? "DEFAULT";
+    if (result.stale) {
+      reason = "STALE";
+    }
+
+    return { reason, flagMetadata: statusDetails?.flagMetadata };
+  }
+
+  /**
+   * Log a failed evaluation and resolve it to the default value.
+   */
+  private errorResolution<T>(
+    flagKey: string,
+    defaultValue: T,
+    error: unknown
+  ): ResolutionDetails<T> {
+    // Context and readiness problems are the caller's to fix; don't report
+    // them as failures
+    if (
+      error instanceof TargetingKeyMissingError ||
+      error instanceof InvalidContextError ||
+      error instanceof ProviderNotReadyError
+    ) {
+      this.logger.warn("Flag evaluation skipped", { flagKey, error });
+    } else {
+      this.logger.error("Error evaluating flag", { flagKey, error });
+    }
+
+    return {
+      value: defaultValue,
+      reason: "ERROR",
+      errorCode: error instanceof OpenFeatureError ? error.code : ErrorCode.GENERAL,
+      errorMessage: error instanceof Error ? error.message : "Unknown error",
     };
   }
 
   /**
    * Get segment flags for a given context.
-   * Results are cached based on visitor/account ID.
+   * Results are cached based on visitor/account ID, page URL and forwarded
+   * metadata.
+   *
+   * Expired entries within the stale window are served immediately while a
+   * background refresh runs, and are kept as a fallback when the API errors.
+   *
+   * An AbortSignal in `context.signal` stops this evaluation from waiting on
+   * the request; a request shared with other evaluations keeps running.
    */
-  private async getSegmentFlags(context: EvaluationContext): Promise<string[] | null> {
-    const visitorId = context.targetingKey;
-    const accountId = context.accountId as string | undefined;
+  private async getSegmentFlags(context: EvaluationContext): Promise<SegmentFlagsResult> {
+    if (this.status === ServerProviderStatus.NOT_READY) {
+      throw new ProviderNotReadyError("Pendo provider is not initialized");
+    }
+
+    const identity = this.resolveIdentity(context);
+    if (!identity) {
+      throw new TargetingKeyMissingError("No visitor ID resolved from evaluation context");
+    }
+    const { visitorId, accountId } = identity;
 
-    if (!visitorId) {
-      console.warn("[PendoProvider] No targetingKey (visitor ID) provided in context");
-      return null;
+    const signal = isAbortSignal(context.signal) ? context.signal : undefined;
+    if (signal?.aborted) {
+      throw new EvaluationAbortedError({ cause: signal.reason });
     }
 
+    const request: SegmentFlagRequest = {
+      visitorId,
+      accountId,
+      // Local flags don't depend on the page
+      url: this.localFlagSource ? "" : this.getUrl(context),
+      metadata: this.options.metadataForwarding
+        ? extractMetadata(context, this.options.metadataForwarding)
+        : undefined,
+    };
+
     // Check cache
-    const cacheKey = `${visitorId}:${accountId || ""}`;
-    const cached = this.cache.get(cacheKey);
-    if (cached && cached.expiresAt > Date.now()) {
-      return cached.flags;
+    const cacheKey = toCacheKey(request);
+    const cached = await this.readCache(cacheKey);
+    const now = Date.now();
+    if (cached && cached.expiresAt > now) {
+      return fromCacheEntry(cached, false);
+    }
+
+    if (cached && cached.expiresAt + this.options.staleTtl > now) {
+      this.refreshInBackground(cacheKey, request, cached);
+      return fromCacheEntry(cached, true);
     }
 
     // Fetch from Pendo API
     try {
-      const flags = await this.fetchSegmentFlags(visitorId, accountId);
+      const result = await abortable(
+        this.refreshSegmentFlags(cacheKey, request, cached, this.getDeadline()),
+        signal
+      );
+      return { ...result, stale: false, cacheHit: false };
+    } catch (error) {
+      if (error instanceof EvaluationAbortedError) {
+        throw error;
+      }
 
-      // Cache the result
-      this.cache.set(cacheKey, {
-        flags,
-        expiresAt: Date.now() + this.options.cacheTtl,
+      if (error instanceof CircuitOpenError) {
+        // Serve whatever may still be served stale rather than waiting on a
+        // failing API
+        if (cached && cached.expiresAt + this.getStaleWindow() > Date.now()) {
+          return fromCacheEntry(cached, true);
+        }
+        throw error;
+      }
+
+      this.logger.error("Failed to fetch segment flags", { error });
+
+      if (cached && cached.expiresAt + this.options.maxStaleOnError > Date.now()) {
+        this.logger.warn("Serving stale segment flags after fetch failure");
+        if (isApiFailure(error)) {
+          this.setApiHealth(ServerProviderStatus.STALE, "Serving stale segment flags");
+        }
+        return fromCacheEntry(cached, true);
+      }
+
+      if (isApiFailure(error)) {
+        this.setApiHealth(ServerProviderStatus.ERROR, "Failed to fetch segment flags");
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the page URL for an evaluation from the context, normalized, falling
+   * back to defaultUrl when the context has no usable URL.
+   */
+  private getUrl(context: EvaluationContext): string {
+    // initialize() requires defaultUrl whenever flags come from the API
+    const defaultUrl = this.options.defaultUrl ?? "";
+    const value = context[this.options.urlAttribute];
+    if (typeof value !== "string" || !value) {
+      return defaultUrl;
+    }
+
+    const url = normalizeUrl(value, defaultUrl, this.options.urlNormalization);
+    if (!url) {
+      this.logger.warn("Invalid URL in evaluation context, using defaultUrl", {
+        attribute: this.options.urlAttribute,
+      });
+      return defaultUrl;
+    }
+
+    return url;
+  }
+
+  /**
+   * Fetch segment flags and store them in the cache, emitting
+   * ConfigurationChanged if they differ from the previous entry.
+   *
+   * Concurrent calls for the same cache key share a single request; every
+   * caller receives the same result or error. The pending entry is removed
+   * once the request settles so a failure doesn't affect later calls.
+   */
+  private refreshSegmentFlags(
+    cacheKey: string,
+    request: SegmentFlagRequest,
+    previous: SegmentFlagCacheEntry | undefined,
+    deadline?: number
+  ): Promise<SegmentFlags> {
+    const pending = this.inflight.get(cacheKey);
+    if (pending) {
+      return pending;
+    }
+
+    const refresh = withRetry(
+      () => this.requestSegmentFlags(request),
+      this.retryPolicy,
+      deadline
+    )
+      .then(async (fetched) => {
+        const result = { ...fetched, fetchedAt: Date.now() };
+        const ttl = this.getCacheTtl(result);
+        await this.writeCache(cacheKey, { ...result, expiresAt: result.fetchedAt + ttl }, ttl);
+        this.setApiHealth(ServerProviderStatus.READY);
+
+        const flagsChanged = previous ? diffFlags(previous.flags, result.flags) : [];
+        if (flagsChanged.length > 0) {
+          this.events.emit(ProviderEvents.ConfigurationChanged, {
+            flagsChanged,
+            metadata: {
+              visitorId: request.visitorId,
+              ...(request.accountId ? { accountId: request.accountId } : {}),
+            },
+          });
+        }
+
+        return result;
+      })
+      .finally(() => {
+        if (this.inflight.get(cacheKey) === refresh) {
+          this.inflight.delete(cacheKey);
+        }
       });
 
-      return flags;
+    this.inflight.set(cacheKey, refresh);
+    return refresh;
+  }
+
+  /**
+   * How long fetched flags are fresh, depending on the visitor's status.
+   */
+  private getCacheTtl(result: SegmentFlags): number {
+    switch (result.visitorStatus) {
+      case "unknown":
+        return this.options.unknownVisitorCacheTtl ?? this.options.cacheTtl;
+      case "optedOut":
+        return this.options.optedOutVisitorCacheTtl ?? this.options.cacheTtl;
+      default:
+        return this.options.cacheTtl;
+    }
+  }
+
+  /**
+   * Refresh a stale entry without blocking the caller.
+   * On failure the stale entry is left in place until it ages out.
+   */
+  private refreshInBackground(
+    cacheKey: string,
+    request: SegmentFlagRequest,
+    previous: SegmentFlagCacheEntry
+  ): void {
+    if (this.inflight.has(cacheKey)) {
+      return;
+    }
+
+    this.refreshSegmentFlags(cacheKey, request, previous, this.getDeadline()).catch((error) => {
+      this.logger.error("Failed to refresh stale segment flags", { error });
+      if (isApiFailure(error)) {
+        this.setApiHealth(ServerProviderStatus.STALE, "Serving stale segment flags");
+      }
+    });
+  }
+
+  /**
+   * Fetch segment flags through the circuit breaker, if one is configured.
+   * Network errors, 429 and 5xx responses count as failures; other responses
+   * (including malformed ones) show the API is reachable and count as
+   * successes.
+   */
+  private async requestSegmentFlags(request: SegmentFlagRequest): Promise<SegmentFlags> {
+    const breaker = this.circuitBreaker;
+    if (!breaker) {
+      return this.fetchSegmentFlags(request);
+    }
+
+    if (!breaker.allowRequest()) {
+      throw new CircuitOpenError();
+    }
+
+    try {
+      const result = await this.fetchSegmentFlags(request);
+      breaker.recordSuccess();
+      return result;
     } catch (error) {
-      console.error("[PendoProvider] Failed to fetch segment flags:", error);
+      if (isApiFailure(error)) {
+        breaker.recordFailure();
+      } else {
+        breaker.recordSuccess();
+      }
       throw error;
     }
   }
 
   /**
-   * Fetch segment flags from Pendo API using JZB-encoded payload.
+   * Report circuit breaker transitions through the provider status and events.
+   */
+  private onCircuitStateChange(state: CircuitState): void {
+    if (state === "open" && this.status !== ServerProviderStatus.NOT_READY) {
+      this.logger.warn("Circuit breaker opened, skipping Pendo API requests");
+      this.setApiHealth(ServerProviderStatus.ERROR, "Pendo API circuit breaker opened");
+    }
+
+    if (state === "closed") {
+      this.setApiHealth(ServerProviderStatus.READY);
+    }
+  }
+
+  /**
+   * Report the health of the Pendo API through the provider status, emitting
+   * the matching event when it changes. STALE means evaluations are falling
+   * back to expired flags and ERROR that they are failing; a successful fetch
+   * returns the provider to READY.
+   */
+  private setApiHealth(
+    status: ServerProviderStatus.READY | ServerProviderStatus.STALE | ServerProviderStatus.ERROR,
+    message?: string
+  ): void {
+    if (this.status === ServerProviderStatus.NOT_READY || this.status === status) {
+      return;
+    }
+    // Don't report a failing API as merely stale
+    if (status === ServerProviderStatus.STALE && this.status === ServerProviderStatus.ERROR) {
+      return;
+    }
+
+    this.status = status;
+    switch (status) {
+      case ServerProviderStatus.READY:
+        this.events.emit(ProviderEvents.Ready);
+        break;
+      case ServerProviderStatus.STALE:
+        this.events.emit(ProviderEvents.Stale, { message });
+        break;
+      case ServerProviderStatus.ERROR:
+        this.events.emit(ProviderEvents.Error, { message });
+        break;
+    }
+  }
+
+  /**
+   * Drop flags cached from the previous local flags after they are reloaded.
+   */
+  private async onLocalFlagsChanged(): Promise<void> {
+    try {
+      await this.cache.clear();
+    } catch (error) {
+      this.logger.error("Failed to clear segment flag cache", { error });
+    }
+    this.events.emit(ProviderEvents.ConfigurationChanged);
+  }
+
+  /**
+   * Fetch segment flags from Pendo API using JZB-encoded payload, or from the
+   * local flag source in offline mode.
    *
-   * Uses the /data/segmentflag.json/:apiKey endpoint with JZB encoding.
+   * Uses the /data/segmentflag.json/:apiKey endpoint with JZB encoding, as a
+   * GET with a `jzb` query parameter or, above maxUrlLength, a POST with the
+   * same parameter in the body. Both are handled the same way.
    */
-  private async fetchSegmentFlags(
-    visitorId: string,
-    accountId?: string
-  ): Promise<string[]> {
+  private async fetchSegmentFlags(request: SegmentFlagRequest): Promise<SegmentFlags> {
+    if (this.localFlagSource) {
+      return { flags: this.localFlagSource.getFlags(request.visitorId, request.accountId) };
+    }
+
     const jzbPayload = encodeJzb({
-      visitorId,
-      accountId,
-      url: this.options.defaultUrl,
+      visitorId: request.visitorId,
+      accountId: request.accountId,
+      url: request.url,
+      metadata: request.metadata,
     });
 
-    const url = `${this.options.baseUrl}/data/segmentflag.json/${this.options.apiKey}?jzb=${jzbPayload}`;
+    const endpoint = `${this.options.baseUrl}/data/segmentflag.json/${this.options.apiKey}`;
+    const query = `jzb=${jzbPayload}`;
+    const usePost = endpoint.length + 1 + query.length > this.options.maxUrlLength;
 
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        Accept: "application/json",
-      },
-    });
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.requestTimeout);
+
+    try {
+      const response = usePost
+        ? await transportFetch(this.transport, endpoint, {
+            method: "POST",
+            headers: {
+              Accept: "application/json",
+              "Content-Type": "application/x-www-form-urlencoded",
+            },
+            body: query,
+            signal: controller.signal,
+          })
+        : await transportFetch(this.transport, `${endpoint}?${query}`, {
+            method: "GET",
+            headers: {
+              Accept: "application/json",
+            },
+            signal: controller.signal,
+          });
 
+      return await this.parseSegmentFlagsResponse(response);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new PendoTimeoutError(this.options.requestTimeout, { cause: error });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Map a segmentflag.json response to the list of flags.
+   */
+  private async parseSegmentFlagsResponse(response: Response): Promise<SegmentFlags> {
     // Handle Pendo-specific status codes
     if (response.status === 202) {
-      // Visitor not yet known to Pendo, return empty flags
-      return [];
+      // Visitor not yet known to Pendo
+      return { flags: [], visitorStatus: "unknown" };
     }
 
+    const retryAfter =
+      response.status === 429 || response.status === 503
+        ? parseRetryAfter(response.headers?.get("Retry-After"))
+        : undefined;
+
     if (response.status === 429) {
-      throw new Error("Pendo API rate limit exceeded");
+      throw new PendoApiError("Pendo API rate limit exceeded", response.status, retryAfter);
     }
 
     if (response.status === 451) {
       // Visitor has opted out or is blocked
-      return [];
+      return { flags: [], visitorStatus: "optedOut" };
     }
 
     if (!response.ok) {
-      throw new Error(`Pendo API error: ${response.status} ${response.statusText}`);
+      throw new PendoApiError(
+        `Pendo API error: ${response.status} ${response.statusText}`,
+        response.status,
+        retryAfter
+      );
     }
 
-    const data = (await response.json()) as { segmentFlags?: string[] };
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch (error) {
+      throw new ParseError("Pendo API returned invalid JSON", { cause: error });
+    }
 
     // Response format: { segmentFlags: ["flag1", "flag2"] }
-    return data.segmentFlags || [];
+    if (typeof data !== "object" || data === null) {
+      throw new ParseError("Pendo API returned an unexpected response");
+    }
+
+    const { segmentFlags } = data as { segmentFlags?: unknown };
+    if (segmentFlags === undefined || segmentFlags === null) {
+      return { flags: [] };
+    }
+    if (!Array.isArray(segmentFlags) || !segmentFlags.every((flag) => typeof flag === "string")) {
+      throw new ParseError("Pendo API returned malformed segmentFlags");
+    }
+    return { flags: segmentFlags };
+  }
+
+  /**
+   * Epoch milliseconds by which an evaluation's fetch must finish, if an
+   * evaluationTimeout is configured.
+   */
+  private getDeadline(): number | undefined {
+    if (this.options.evaluationTimeout === undefined) {
+      return undefined;
+    }
+
+    return Date.now() + this.options.evaluationTimeout;
+  }
+
+  /**
+   * How long in milliseconds past its TTL a cache entry may be served stale.
+   */
+  private getStaleWindow(): number {
+    return Math.max(this.options.staleTtl, this.options.maxStaleOnError);
+  }
+
+  /**
+   * Read from the cache store. Store failures are treated as cache misses.
+   */
+  private async readCache(cacheKey: string): Promise<SegmentFlagCacheEntry | undefined> {
+    try {
+      return await this.cache.get(cacheKey);
+    } catch (error) {
+      this.logger.error("Failed to read segment flag cache", { error });
+      return undefined;
+    }
+  }
+
+  /**
+   * Write to the cache store. Store failures don't fail the evaluation.
+   */
+  private async writeCache(
+    cacheKey: string,
+    entry: SegmentFlagCacheEntry,
+    ttl: number
+  ): Promise<void> {
+    // Keep entries past their TTL for as long as they may be served stale, and
+    // for at least another TTL so the next fetch can report changed flags
+    const retention = ttl + Math.max(this.getStaleWindow(), ttl);
+
+    try {
+      await this.cache.set(cacheKey, entry, retention);
+    } catch (error) {
+      this.logger.error("Failed to write segment flag cache", { error });
+    }
   }
 
   /**
    * Clear the cache.
    */
-  clearCache(): void {
-    this.cache.clear();
+  async clearCache(): Promise<void> {
+    await this.cache.clear();
+  }
+}
+
+/**
+ * Error for a non-boolean evaluation of a flag without a definition in strict
+ * type checking.
+ */
+function undefinedFlagTypeMismatch(flagKey: string, type: FlagValueType): TypeMismatchError {
+  return new TypeMismatchError(
+    `Flag "${flagKey}" has no flagDefinitions entry and can only be evaluated as a boolean, ` +
+      `not a ${type}`
+  );
+}
+
+/**
+ * Cache key for a segment flag request. The parts are JSON-encoded rather
+ * than joined, as IDs may contain any separator (e.g. composite IDs).
+ */
+function toCacheKey(request: SegmentFlagRequest): string {
+  return JSON.stringify([
+    request.visitorId,
+    request.accountId || null,
+    request.url,
+    request.metadata ? hashMetadata(request.metadata) : null,
+  ]);
+}
+
+function fromCacheEntry(entry: SegmentFlagCacheEntry, stale: boolean): SegmentFlagsResult {
+  return {
+    flags: entry.flags,
+    visitorStatus: entry.visitorStatus,
+    fetchedAt: entry.fetchedAt,
+    stale,
+    cacheHit: true,
+  };
+}
+
+/**
+ * Whether an error shows the Pendo API is unavailable: network errors,
+ * timeouts, 429 and 5xx responses. Other responses, including malformed ones,
+ * show the API is reachable, and a payload over the JZB size limit is never
+ * sent.
+ */
+function isApiFailure(error: unknown): boolean {
+  if (error instanceof PendoApiError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return !(error instanceof ParseError || error instanceof JzbError);
+}
+
+/**
+ * Flag keys added or removed between two flag sets.
+ */
+function diffFlags(previous: string[], current: string[]): string[] {
+  const before = new Set(previous);
+  const after = new Set(current);
+  return [
+    ...current.filter((flag) => !before.has(flag)),
+    ...previous.filter((flag) => !after.has(flag)),
+  ];
+}
+
+function isAbortSignal(value: unknown): value is AbortSignal {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as AbortSignal).aborted === "boolean" &&
+    typeof (value as AbortSignal).addEventListener === "function"
+  );
+}
+
+/**
+ * Reject with an EvaluationAbortedError as soon as `signal` aborts, without
+ * cancelling the underlying promise.
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
   }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new EvaluationAbortedError({ cause: signal.reason }));
+    signal.addEventListener("abort", onAbort, { once: true });
+    if (signal.aborted) {
+      onAbort();
+    }
+
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
 }
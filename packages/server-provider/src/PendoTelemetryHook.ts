@@ -1,11 +1,18 @@
 import type {
   Hook,
   HookContext,
+  EvaluationContext,
   EvaluationDetails,
   FlagValue,
 } from "@openfeature/server-sdk";
+import { createIdentityResolver } from "./identity";
+import type { IdentityResolver, PendoIdentity } from "./identity";
+import { createLogger } from "./logger";
+import type { LoggerOptions, PendoLogger } from "./logger";
+import type { TransportOptions } from "./transport";
+import { TrackEventQueue } from "./TrackEventQueue";
 
-export interface PendoTelemetryHookOptions {
+export interface PendoTelemetryHookOptions extends LoggerOptions, TransportOptions {
   /**
    * Event name for flag evaluation tracking.
    * Default: "flag_evaluated"
@@ -20,15 +27,29 @@ export interface PendoTelemetryHookOptions {
 
   /**
    * Track event secret for server-side track events.
-   * Required for the hook to send events to Pendo.
+   * Required for the hook to send events to Pendo unless eventQueue is provided.
    */
-  trackEventSecret: string;
+  trackEventSecret?: string;
 
   /**
    * Pendo data host URL.
    * Default: https://data.pendo.io
    */
   baseUrl?: string;
+
+  /**
+   * Queue that buffers track events and sends them in the background, e.g. the same queue passed
+   * to PendoProvider.
+   * Default: a TrackEventQueue created from trackEventSecret and baseUrl
+   */
+  eventQueue?: TrackEventQueue;
+
+  /**
+   * How the Pendo visitor and account IDs are derived from the evaluation
+   * context. Should match the provider's identityResolver.
+   * Default: { visitorId: "targetingKey", accountId: "accountId" }
+   */
+  identityResolver?: IdentityResolver;
 }
 
 /**
@@ -56,9 +77,22 @@ export interface PendoTelemetryHookOptions {
  * ```
  */
 export class PendoTelemetryHook implements Hook {
-  private options: Required<Omit<PendoTelemetryHookOptions, "flagFilter">> & {
+  private options: Required<
+    Omit<
+      PendoTelemetryHookOptions,
+      | "flagFilter"
+      | "trackEventSecret"
+      | "eventQueue"
+      | "identityResolver"
+      | keyof LoggerOptions
+      | keyof TransportOptions
+    >
+  > & {
     flagFilter?: (flagKey: string) => boolean;
   };
+  private eventQueue: TrackEventQueue;
+  private logger: PendoLogger;
+  private resolveIdentity: (context: EvaluationContext) => PendoIdentity | undefined;
 
   constructor(options: PendoTelemetryHookOptions) {
     this.options = {
@@ -66,11 +100,45 @@ export class PendoTelemetryHook implements Hook {
       baseUrl: "https://data.pendo.io",
       ...options,
     };
+
+    this.logger = createLogger("PendoTelemetryHook", options);
+    this.resolveIdentity = createIdentityResolver(options.identityResolver);
+
+    if (options.eventQueue) {
+      this.eventQueue = options.eventQueue;
+    } else if (options.trackEventSecret) {
+      this.eventQueue = new TrackEventQueue({
+        trackEventSecret: options.trackEventSecret,
+        baseUrl: this.options.baseUrl,
+        fetch: options.fetch,
+        headers: options.headers,
+        logger: options.logger,
+        logLevel: options.logLevel,
+        logDedupeInterval: options.logDedupeInterval,
+      });
+    } else {
+      throw new Error("PendoTelemetryHook requires trackEventSecret or eventQueue");
+    }
+  }
+
+  /**
+   * Send all buffered flag evaluation events.
+   */
+  flush(): Promise<void> {
+    return this.eventQueue.flush();
+  }
+
+  /**
+   * Send all buffered flag evaluation events and stop the flush timer.
+   * Call this on shutdown when the hook's queue isn't closed by a provider.
+   */
+  close(): Promise<void> {
+    return this.eventQueue.close();
   }
 
   /**
    * Called after a flag is successfully evaluated.
-   * Sends the evaluation result to Pendo as a track event.
+   * Queues the evaluation result to be sent to Pendo as a track event.
    */
   after(
     hookContext: Readonly<HookContext<FlagValue>>,
@@ -83,13 +151,24 @@ export class PendoTelemetryHook implements Hook {
       return;
     }
 
-    const visitorId = hookContext.context.targetingKey;
-    if (!visitorId) {
-      // Can't track without a visitor ID
+    let identity: PendoIdentity | undefined;
+    try {
+      identity = this.resolveIdentity(hookContext.context);
+    } catch (error) {
+      this.logger.warn("Invalid identity in evaluation context, skipping tracking", {
+        flagKey,
+        error,
+      });
       return;
     }
 
-    const accountId = hookContext.context.accountId as string | undefined;
+    if (!identity) {
+      // Can't track without a visitor ID
+      this.logger.debug("No visitor ID resolved from evaluation context, skipping tracking", {
+        flagKey,
+      });
+      return;
+    }
 
     const properties = {
       flag_key: flagKey,
@@ -99,25 +178,13 @@ export class PendoTelemetryHook implements Hook {
       provider_name: hookContext.providerMetadata.name,
     };
 
-    const payload = {
+    this.eventQueue.enqueue({
       type: "track",
       event: this.options.eventName,
-      visitorId,
-      accountId,
+      visitorId: identity.visitorId,
+      accountId: identity.accountId,
       timestamp: Date.now(),
       properties,
-    };
-
-    // Fire-and-forget: don't await
-    fetch(`${this.options.baseUrl}/data/track`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-pendo-track-event-secret": this.options.trackEventSecret,
-      },
-      body: JSON.stringify(payload),
-    }).catch((error) => {
-      console.error("[PendoTelemetryHook] Failed to track flag evaluation:", error);
     });
   }
 
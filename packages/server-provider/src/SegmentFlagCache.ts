@@ -0,0 +1,151 @@
+import { LruCache } from "./LruCache";
+
+/**
+ * Why Pendo returned no segment flags for a visitor:
+ * - "unknown": the visitor is not yet known to Pendo (HTTP 202)
+ * - "optedOut": the visitor has opted out or is blocked (HTTP 451)
+ */
+export type VisitorStatus = "unknown" | "optedOut";
+
+/**
+ * Cached segment flags for a single visitor/account.
+ */
+export interface SegmentFlagCacheEntry {
+  /**
+   * Segment flag keys the visitor matched.
+   */
+  flags: string[];
+
+  /**
+   * Set when Pendo returned no flags because of the visitor's status.
+   */
+  visitorStatus?: VisitorStatus;
+
+  /**
+   * Epoch milliseconds at which the flags were fetched.
+   */
+  fetchedAt?: number;
+
+  /**
+   * Epoch milliseconds after which the entry is considered stale.
+   * The entry may outlive this time (see the `ttl` passed to `set`) so it can
+   * be served stale.
+   */
+  expiresAt: number;
+}
+
+/**
+ * Storage for segment flags, shared by all evaluations of a provider.
+ *
+ * Implement this to back the provider with a shared store (e.g. Redis or
+ * Memcached) so multiple processes don't each warm their own cache.
+ * Implementations should treat their own failures as cache misses where
+ * possible; the provider logs and ignores errors thrown from any method.
+ */
+export interface SegmentFlagCache {
+  get(key: string): Promise<SegmentFlagCacheEntry | undefined>;
+
+  /**
+   * Store an entry. `ttl` is how long in milliseconds the store must keep it.
+   */
+  set(key: string, entry: SegmentFlagCacheEntry, ttl: number): Promise<void>;
+
+  delete(key: string): Promise<void>;
+
+  clear(): Promise<void>;
+
+  /**
+   * Release resources when the provider is closed.
+   * When not implemented, the provider calls `clear()` instead.
+   */
+  close?(): Promise<void>;
+}
+
+export interface MemorySegmentFlagCacheOptions {
+  /**
+   * Maximum number of entries kept in memory.
+   * Default: 10000
+   */
+  maxEntries?: number;
+
+  /**
+   * Approximate memory budget in bytes.
+   * Default: unbounded (only maxEntries applies)
+   */
+  maxSize?: number;
+
+  /**
+   * Interval in milliseconds at which expired entries are swept.
+   * Set to 0 to disable sweeping (expired entries are still dropped on read).
+   * Default: 60000 (1 minute)
+   */
+  sweepInterval?: number;
+}
+
+/**
+ * In-process LRU cache. Used by the provider when no `cache` is configured.
+ */
+export class MemorySegmentFlagCache implements SegmentFlagCache {
+  private lru: LruCache<SegmentFlagCacheEntry>;
+  private sweepInterval: number;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: MemorySegmentFlagCacheOptions = {}) {
+    this.lru = new LruCache({
+      maxEntries: options.maxEntries ?? 10000,
+      maxSize: options.maxSize,
+    });
+    this.sweepInterval = options.sweepInterval ?? 60000;
+  }
+
+  /**
+   * Number of entries currently held, including expired entries that have not
+   * been swept yet.
+   */
+  get size(): number {
+    return this.lru.size;
+  }
+
+  async get(key: string): Promise<SegmentFlagCacheEntry | undefined> {
+    return this.lru.get(key);
+  }
+
+  async set(key: string, entry: SegmentFlagCacheEntry, ttl: number): Promise<void> {
+    this.lru.set(key, entry, ttl);
+    this.startSweep();
+  }
+
+  async delete(key: string): Promise<void> {
+    this.lru.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.lru.clear();
+  }
+
+  async close(): Promise<void> {
+    this.stopSweep();
+    this.lru.clear();
+  }
+
+  /**
+   * Periodically remove expired entries so visitors that are never seen
+   * again don't hold memory until they are evicted by newer ones.
+   */
+  private startSweep(): void {
+    if (this.sweepTimer || this.sweepInterval <= 0) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => this.lru.prune(), this.sweepInterval);
+    // Don't keep the process alive just to sweep the cache
+    this.sweepTimer.unref?.();
+  }
+
+  private stopSweep(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+}
@@ -0,0 +1,254 @@
+import { PendoApiError } from "./errors";
+import { createLogger } from "./logger";
+import type { LoggerOptions, PendoLogger } from "./logger";
+import { DEFAULT_RETRY_POLICY, withRetry } from "./retry";
+import type { RetryOptions, RetryPolicy } from "./retry";
+import { transportFetch } from "./transport";
+import type { TransportOptions } from "./transport";
+
+/**
+ * A server-side track event as sent to Pendo's /data/track endpoint.
+ */
+export interface TrackEvent {
+  type: "track";
+  event: string;
+  visitorId: string;
+  accountId?: string;
+  timestamp: number;
+  properties?: Record<string, unknown>;
+}
+
+export interface TrackEventQueueOptions extends LoggerOptions, TransportOptions {
+  /**
+   * Track event secret for server-side track events.
+   */
+  trackEventSecret: string;
+
+  /**
+   * Pendo data host URL.
+   * Default: https://data.pendo.io
+   */
+  baseUrl?: string;
+
+  /**
+   * Number of buffered events that triggers a flush.
+   * Default: 100
+   */
+  maxBatchSize?: number;
+
+  /**
+   * Maximum number of track requests in flight at once. Pendo's track
+   * endpoint takes one event per request, so a flush sends the buffered
+   * events through this many parallel requests.
+   * Default: 5
+   */
+  maxConcurrency?: number;
+
+  /**
+   * Interval in milliseconds at which buffered events are flushed.
+   * Default: 1000 (1 second)
+   */
+  flushInterval?: number;
+
+  /**
+   * Maximum number of events buffered in memory. Further events are dropped
+   * according to dropPolicy.
+   * Default: 10000
+   */
+  maxQueueSize?: number;
+
+  /**
+   * Which events to drop when the queue is full.
+   * - "oldest": drop the oldest buffered event to make room
+   * - "newest": drop the incoming event
+   * Default: "oldest"
+   */
+  dropPolicy?: "oldest" | "newest";
+
+  /**
+   * Retry policy for failed events.
+   * Default: 3 attempts with exponential backoff
+   */
+  retry?: RetryOptions;
+}
+
+/**
+ * Buffers track events and sends them to Pendo in the background.
+ *
+ * Events are flushed when `maxBatchSize` events are buffered or every
+ * `flushInterval` milliseconds, one event per request with up to
+ * `maxConcurrency` requests in flight. Failed events are retried with backoff
+ * and dropped once retries are exhausted. `droppedCount` counts every event
+ * lost to a full queue or a failed request.
+ *
+ * A single queue can be shared by a PendoProvider and PendoTelemetryHook.
+ * Call `close()` (done by `PendoProvider.onClose()`) to send everything still
+ * buffered before shutdown.
+ *
+ * @example
+ * ```typescript
+ * const eventQueue = new TrackEventQueue({
+ *   trackEventSecret: process.env.PENDO_TRACK_SECRET!,
+ *   maxBatchSize: 500,
+ * });
+ *
+ * const provider = new PendoProvider({ apiKey, defaultUrl, eventQueue });
+ * const telemetryHook = new PendoTelemetryHook({ eventQueue });
+ * ```
+ */
+export class TrackEventQueue {
+  private options: Required<
+    Omit<TrackEventQueueOptions, "retry" | keyof LoggerOptions | keyof TransportOptions>
+  >;
+  private retryPolicy: RetryPolicy;
+  private logger: PendoLogger;
+  private transport: TransportOptions;
+  private queue: TrackEvent[] = [];
+  private dropped = 0;
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private flushing: Promise<void> | null = null;
+
+  constructor(options: TrackEventQueueOptions) {
+    this.options = {
+      baseUrl: "https://data.pendo.io",
+      maxBatchSize: 100,
+      maxConcurrency: 5,
+      flushInterval: 1000,
+      maxQueueSize: 10000,
+      dropPolicy: "oldest",
+      ...options,
+    };
+
+    this.logger = createLogger("TrackEventQueue", options);
+    this.transport = { fetch: options.fetch, headers: options.headers };
+
+    this.retryPolicy = {
+      ...DEFAULT_RETRY_POLICY,
+      maxAttempts: 3,
+      ...options.retry,
+    };
+  }
+
+  /**
+   * Number of events currently buffered.
+   */
+  get size(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Number of events dropped because the queue was full or sending them failed.
+   */
+  get droppedCount(): number {
+    return this.dropped;
+  }
+
+  /**
+   * Buffer an event for sending.
+   */
+  enqueue(event: TrackEvent): void {
+    if (this.queue.length >= this.options.maxQueueSize) {
+      this.dropped++;
+      if (this.options.dropPolicy === "newest") {
+        return;
+      }
+      this.queue.shift();
+    }
+
+    this.queue.push(event);
+    this.startTimer();
+
+    if (this.queue.length >= this.options.maxBatchSize) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Send all buffered events. Resolves once they have been sent or dropped;
+   * never rejects.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+      });
+    }
+
+    return this.flushing;
+  }
+
+  /**
+   * Stop the flush timer and send all buffered events.
+   * Events enqueued afterwards restart the timer.
+   */
+  async close(): Promise<void> {
+    this.stopTimer();
+    await this.flush();
+  }
+
+  /**
+   * Send buffered events until the queue is empty, including events enqueued
+   * while draining, with up to maxConcurrency requests in flight.
+   */
+  private async drain(): Promise<void> {
+    const worker = async () => {
+      for (let event = this.queue.shift(); event; event = this.queue.shift()) {
+        await this.sendWithRetry(event);
+      }
+    };
+
+    const workers = Math.max(1, Math.min(this.options.maxConcurrency, this.queue.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+  }
+
+  /**
+   * Send one event, retrying per the retry policy, and drop it on failure.
+   */
+  private async sendWithRetry(event: TrackEvent): Promise<void> {
+    try {
+      await withRetry(() => this.send(event), this.retryPolicy);
+    } catch (error) {
+      this.dropped++;
+      this.logger.error("Failed to send track event", { event: event.event, error });
+    }
+  }
+
+  private async send(event: TrackEvent): Promise<void> {
+    const response = await transportFetch(this.transport, `${this.options.baseUrl}/data/track`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-pendo-track-event-secret": this.options.trackEventSecret,
+      },
+      body: JSON.stringify(event),
+    });
+
+    if (!response.ok) {
+      throw new PendoApiError(
+        `Pendo API error: ${response.status} ${response.statusText}`,
+        response.status
+      );
+    }
+  }
+
+  private startTimer(): void {
+    if (this.flushTimer || this.options.flushInterval <= 0) {
+      return;
+    }
+
+    this.flushTimer = setInterval(() => {
+      if (this.queue.length > 0) {
+        void this.flush();
+      }
+    }, this.options.flushInterval);
+    // Don't keep the process alive just to flush; call close() on shutdown
+    this.flushTimer.unref?.();
+  }
+
+  private stopTimer(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Global the web provider reads a bootstrap payload from when none is passed
+ * to its constructor.
+ */
+export const BOOTSTRAP_GLOBAL = "__PENDO_FLAGS_BOOTSTRAP__";
+
+/**
+ * Segment flags for a visitor, rendered by the server into the page so the
+ * web provider can resolve flags before the Pendo Web SDK has loaded.
+ */
+export interface PendoBootstrap {
+  visitorId: string;
+  accountId?: string;
+
+  /**
+   * Segment flag keys the visitor matched.
+   */
+  flags: string[];
+
+  /**
+   * Epoch milliseconds at which the flags were fetched.
+   */
+  fetchedAt?: number;
+}
+
+/**
+ * Characters that could end a script element or break JavaScript string
+ * parsing when JSON is inlined into HTML.
+ */
+const UNSAFE_CHARACTERS: Record<string, string> = {
+  "<": "\\u003c",
+  ">": "\\u003e",
+  "&": "\\u0026",
+  "\u2028": "\\u2028",
+  "\u2029": "\\u2029",
+};
+
+/**
+ * Serialize a bootstrap payload as JSON that is safe to inline in a
+ * `<script>` element: characters that could close the element or inject
+ * markup are escaped, so visitor IDs and flag keys can't break out of it.
+ */
+export function serializeBootstrap(bootstrap: PendoBootstrap): string {
+  return JSON.stringify(bootstrap).replace(
+    /[<>&\u2028\u2029]/g,
+    (character) => UNSAFE_CHARACTERS[character]
+  );
+}
+
+/**
+ * JavaScript assigning a bootstrap payload to the global the web provider
+ * reads, for the body of an inline `<script>` element.
+ *
+ * @example
+ * ```typescript
+ * const bootstrap = await provider.getBootstrap(context);
+ * html += `<script>${bootstrapScript(bootstrap)}</script>`;
+ * ```
+ */
+export function bootstrapScript(bootstrap: PendoBootstrap): string {
+  return `window.${BOOTSTRAP_GLOBAL} = ${serializeBootstrap(bootstrap)};`;
+}
@@ -0,0 +1,75 @@
+import { GeneralError } from "@openfeature/server-sdk";
+
+/**
+ * Error returned by the Pendo data API (non-2xx status other than the
+ * Pendo-specific 202/451 responses).
+ */
+export class PendoApiError extends Error {
+  /**
+   * HTTP status code of the response.
+   */
+  readonly status: number;
+
+  /**
+   * Delay in milliseconds requested by the Retry-After header, if any.
+   */
+  readonly retryAfter?: number;
+
+  constructor(message: string, status: number, retryAfter?: number) {
+    super(message);
+    this.name = "PendoApiError";
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Thrown instead of calling the Pendo data API while the circuit breaker is
+ * open.
+ */
+export class CircuitOpenError extends Error {
+  constructor() {
+    super("Pendo API circuit breaker is open");
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * A request to the Pendo data API took longer than `requestTimeout`.
+ */
+export class PendoTimeoutError extends GeneralError {
+  /**
+   * The timeout in milliseconds that was exceeded.
+   */
+  readonly timeout: number;
+
+  constructor(timeout: number, options?: { cause?: unknown }) {
+    super(`Pendo API request timed out after ${timeout}ms`, options);
+    // GeneralError resets the prototype to its own, which breaks instanceof
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "PendoTimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * The caller aborted the evaluation through the AbortSignal in its context.
+ */
+export class EvaluationAbortedError extends GeneralError {
+  constructor(options?: { cause?: unknown }) {
+    super("Flag evaluation was aborted", options);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "EvaluationAbortedError";
+  }
+}
+
+/**
+ * A JZB payload couldn't be encoded or decoded: it is malformed, or longer
+ * than the size limit.
+ */
+export class JzbError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JzbError";
+  }
+}
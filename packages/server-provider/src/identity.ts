@@ -0,0 +1,135 @@
+import type { EvaluationContext } from "@openfeature/server-sdk";
+import { InvalidContextError } from "@openfeature/server-sdk";
+
+/**
+ * Pendo visitor and account an evaluation or event is attributed to.
+ */
+export interface PendoIdentity {
+  visitorId: string;
+  accountId?: string;
+}
+
+/**
+ * Context attributes holding the Pendo visitor and account IDs.
+ *
+ * Each ID is read from an attribute path: a top-level attribute name or a
+ * dot-separated path into nested objects (e.g. "tenant.id"). A list of paths
+ * builds a composite ID from all of them, joined by `separator`; if any part
+ * is missing the ID is missing.
+ */
+export interface IdentityMapping {
+  /**
+   * Attribute path(s) for the visitor ID.
+   * Default: "targetingKey"
+   */
+  visitorId?: string | string[];
+
+  /**
+   * Attribute path(s) for the account ID.
+   * Default: "accountId"
+   */
+  accountId?: string | string[];
+
+  /**
+   * Separator between the parts of a composite ID.
+   * Default: ":"
+   */
+  separator?: string;
+}
+
+/**
+ * Derives the Pendo identity from an evaluation context: either an attribute
+ * mapping or a function returning the identity (or undefined if there is none).
+ */
+export type IdentityResolver =
+  | IdentityMapping
+  | ((context: EvaluationContext) => PendoIdentity | undefined);
+
+/**
+ * Build a function returning the identity for a context, or undefined when
+ * no visitor ID can be derived. Missing or empty IDs count as missing; the
+ * returned function throws an InvalidContextError for IDs that aren't strings.
+ *
+ * @throws Error if the mapping names no attribute for an ID
+ */
+export function createIdentityResolver(
+  resolver: IdentityResolver = {}
+): (context: EvaluationContext) => PendoIdentity | undefined {
+  if (typeof resolver === "function") {
+    return (context) => {
+      const identity = resolver(context);
+      const visitorId = toId(identity?.visitorId, "visitorId");
+      if (!visitorId) {
+        return undefined;
+      }
+      return { visitorId, accountId: toId(identity?.accountId, "accountId") };
+    };
+  }
+
+  const visitorPaths = toPaths(resolver.visitorId ?? "targetingKey", "visitorId");
+  const accountPaths = toPaths(resolver.accountId ?? "accountId", "accountId");
+  const separator = resolver.separator ?? ":";
+
+  return (context) => {
+    const visitorId = readId(context, visitorPaths, separator, "visitorId");
+    if (!visitorId) {
+      return undefined;
+    }
+    return { visitorId, accountId: readId(context, accountPaths, separator, "accountId") };
+  };
+}
+
+function toPaths(value: string | string[], name: string): string[][] {
+  const paths = (Array.isArray(value) ? value : [value]).filter((path) => path);
+  if (paths.length === 0) {
+    throw new Error(`identityResolver ${name} must name at least one attribute`);
+  }
+  return paths.map((path) => path.split("."));
+}
+
+function readId(
+  context: EvaluationContext,
+  paths: string[][],
+  separator: string,
+  name: string
+): string | undefined {
+  const parts: string[] = [];
+  for (const path of paths) {
+    const part = toId(readPath(context, path), `${name} (${path.join(".")})`);
+    if (!part) {
+      return undefined;
+    }
+    parts.push(part);
+  }
+  return parts.join(separator);
+}
+
+/**
+ * Read an attribute path, preferring a top-level attribute whose name
+ * contains dots over a nested lookup.
+ */
+function readPath(context: EvaluationContext, path: string[]): unknown {
+  const flat = context[path.join(".")];
+  if (flat !== undefined) {
+    return flat;
+  }
+
+  let value: unknown = context;
+  for (const key of path) {
+    if (value === null || typeof value !== "object") {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function toId(value: unknown, name: string): string | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw new InvalidContextError(`${name} must be a string, got ${typeof value}`);
+  }
+  return value;
+}
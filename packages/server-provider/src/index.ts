@@ -1,4 +1,48 @@
 export { PendoProvider } from "./PendoProvider";
-export type { PendoProviderOptions } from "./PendoProvider";
+export type {
+  AllFlags,
+  AllFlagsMetadata,
+  FlagSource,
+  PendoProviderOptions,
+} from "./PendoProvider";
+export { BOOTSTRAP_GLOBAL, bootstrapScript, serializeBootstrap } from "./bootstrap";
+export type { PendoBootstrap } from "./bootstrap";
+export {
+  PendoApiError,
+  CircuitOpenError,
+  PendoTimeoutError,
+  EvaluationAbortedError,
+  JzbError,
+} from "./errors";
+export { DEFAULT_MAX_JZB_LENGTH, decodeJzb, encodeJzb } from "./jzb";
+export type { JzbOptions } from "./jzb";
+export type { LocalFlags, LocalFlagsFile, LocalFlagSourceOptions } from "./LocalFlagSource";
+export type {
+  FlagDefinition,
+  FlagDefinitions,
+  TypeCheckMode,
+  VariantRule,
+} from "./flagDefinitions";
+export type { IdentityMapping, IdentityResolver, PendoIdentity } from "./identity";
+export type { UrlNormalizationOptions } from "./url";
+export type { ForwardedMetadata, MetadataForwardingOptions, MetadataValue } from "./metadata";
+export type { CircuitBreakerOptions } from "./CircuitBreaker";
+export type { RetryOptions } from "./retry";
+export type { FetchFunction, HeadersOption, TransportOptions } from "./transport";
+export type { LogFields, LogLevel, LoggerOptions, PendoLogger } from "./logger";
+export { MemorySegmentFlagCache } from "./SegmentFlagCache";
+export type {
+  SegmentFlagCache,
+  SegmentFlagCacheEntry,
+  VisitorStatus,
+  MemorySegmentFlagCacheOptions,
+} from "./SegmentFlagCache";
+export { KeyValueSegmentFlagCache } from "./KeyValueSegmentFlagCache";
+export type {
+  KeyValueClient,
+  KeyValueSegmentFlagCacheOptions,
+} from "./KeyValueSegmentFlagCache";
+export { TrackEventQueue } from "./TrackEventQueue";
+export type { TrackEvent, TrackEventQueueOptions } from "./TrackEventQueue";
 export { PendoTelemetryHook } from "./PendoTelemetryHook";
 export type { PendoTelemetryHookOptions } from "./PendoTelemetryHook";
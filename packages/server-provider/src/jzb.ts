@@ -1,4 +1,21 @@
 import pako from "pako";
+import { JzbError } from "./errors";
+
+/**
+ * Default maximum length of an encoded JZB payload, in characters.
+ */
+export const DEFAULT_MAX_JZB_LENGTH = 65536;
+
+const BINARY_CHUNK_SIZE = 0x8000;
+
+export interface JzbOptions {
+  /**
+   * Maximum length of the encoded payload, in characters. Longer payloads
+   * are rejected before they are sent or decompressed.
+   * Default: 65536
+   */
+  maxLength?: number;
+}
 
 /**
  * JZB encoding: JSON → Zlib → Base64 (URL-safe)
@@ -8,8 +25,9 @@ import pako from "pako";
  *
  * @param payload - The object to encode
  * @returns URL-safe base64 encoded zlib-compressed JSON string
+ * @throws JzbError if the encoded payload is longer than `maxLength`
  */
-export function encodeJzb(payload: Record<string, unknown>): string {
+export function encodeJzb(payload: Record<string, unknown>, options: JzbOptions = {}): string {
   // Step 1: Convert to JSON string
   const jsonString = JSON.stringify(payload);
 
@@ -17,10 +35,119 @@ export function encodeJzb(payload: Record<string, unknown>): string {
   const compressed = pako.deflate(jsonString);
 
   // Step 3: Convert to base64
-  const base64 = Buffer.from(compressed).toString("base64");
+  const base64 = bytesToBase64(compressed);
 
   // Step 4: Make URL-safe (replace + with -, / with _, remove padding =)
   const urlSafe = base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
 
+  checkLength(urlSafe, options);
   return urlSafe;
 }
+
+/**
+ * Decode a JZB payload, e.g. the `jzb` query parameter of a segmentflag.json
+ * request copied from logs. Reverses encodeJzb: URL-safe Base64 → Zlib
+ * decompress → JSON parse.
+ *
+ * Trailing "=" padding is accepted; standard Base64 characters ("+", "/")
+ * and whitespace are not, since they don't survive in a URL unescaped.
+ *
+ * @param encoded - URL-safe base64 encoded zlib-compressed JSON string
+ * @returns The decoded object
+ * @throws JzbError naming the step that failed: malformed Base64, corrupt
+ * compressed data, invalid JSON, or JSON that isn't an object
+ */
+export function decodeJzb(encoded: string, options: JzbOptions = {}): Record<string, unknown> {
+  checkLength(encoded, options);
+
+  const unpadded = encoded.replace(/=+$/, "");
+  if (!unpadded) {
+    throw new JzbError("JZB payload is empty");
+  }
+
+  const invalid = unpadded.match(/[^A-Za-z0-9_-]/);
+  if (invalid) {
+    throw new JzbError(
+      `JZB payload contains "${invalid[0]}" at position ${invalid.index}, ` +
+        "which is not URL-safe Base64 (A-Z, a-z, 0-9, -, _)"
+    );
+  }
+  if (unpadded.length % 4 === 1) {
+    throw new JzbError(
+      `JZB payload has an impossible Base64 length of ${unpadded.length}; it may be truncated`
+    );
+  }
+
+  const base64 = unpadded.replace(/-/g, "+").replace(/_/g, "/");
+  const compressed = base64ToBytes(base64);
+
+  let jsonString: string;
+  try {
+    jsonString = pako.inflate(compressed, { to: "string" });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new JzbError(`JZB payload is not valid zlib data (${reason})`);
+  }
+  if (!jsonString) {
+    throw new JzbError("JZB payload is not valid zlib data; it may be truncated");
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(jsonString);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new JzbError(`JZB payload does not contain valid JSON (${reason})`);
+  }
+
+  if (typeof payload !== "object" || payload === null || Array.isArray(payload)) {
+    const type = payload === null ? "null" : Array.isArray(payload) ? "array" : typeof payload;
+    throw new JzbError(`JZB payload must be a JSON object, got ${type}`);
+  }
+
+  return payload as Record<string, unknown>;
+}
+
+/**
+ * Base64-encode bytes with Node's Buffer, or with btoa in runtimes without it
+ * (edge runtimes, Deno, web workers).
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+  if (typeof globalThis.Buffer === "function") {
+    return globalThis.Buffer.from(bytes).toString("base64");
+  }
+
+  // btoa takes a binary string; build it in chunks to stay within the
+  // argument limit of String.fromCharCode
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += BINARY_CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BINARY_CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode unpadded standard Base64 with Node's Buffer, or with atob in
+ * runtimes without it.
+ */
+function base64ToBytes(base64: string): Uint8Array {
+  if (typeof globalThis.Buffer === "function") {
+    return globalThis.Buffer.from(base64, "base64");
+  }
+
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function checkLength(encoded: string, options: JzbOptions): void {
+  const maxLength = options.maxLength ?? DEFAULT_MAX_JZB_LENGTH;
+  if (encoded.length > maxLength) {
+    throw new JzbError(
+      `JZB payload is ${encoded.length} characters, over the limit of ${maxLength}`
+    );
+  }
+}
@@ -0,0 +1,133 @@
+// Shared by both providers: packages/server-provider/src/logger.ts is the source
+// and packages/web-provider/src/logger.ts an identical copy. Change both;
+// packages/web-provider/test/sharedSources.spec.ts fails when they drift apart.
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+/**
+ * Structured data attached to a log message.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger accepted by the provider and telemetry hook.
+ * Messages are static strings; variable data is passed in `fields`.
+ */
+export interface PendoLogger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+export interface LoggerOptions {
+  /**
+   * Logger to send messages to. Receives each message with a `component`
+   * field naming the class that logged it.
+   * Default: console, with messages prefixed by the component name
+   */
+  logger?: PendoLogger;
+
+  /**
+   * Minimum level that is logged.
+   * Default: "warn"
+   */
+  logLevel?: LogLevel;
+
+  /**
+   * Window in milliseconds during which repeated warnings and errors with the
+   * same message and the same kind of `error` field (its name, status and
+   * code) are logged only once. The next occurrence after the window includes
+   * a `suppressed` count. Set to 0 to log every occurrence.
+   * Default: 60000 (1 minute)
+   */
+  logDedupeInterval?: number;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+/**
+ * Create the logger used internally by a component.
+ *
+ * Applies level filtering and de-duplication on top of the configured logger
+ * (or the console).
+ */
+export function createLogger(component: string, options: LoggerOptions = {}): PendoLogger {
+  const target = options.logger ?? consoleLogger(component);
+  const minLevel = LEVELS[options.logLevel ?? "warn"];
+  const dedupeInterval = options.logDedupeInterval ?? 60000;
+  const recent = new Map<string, { loggedAt: number; suppressed: number }>();
+
+  const log = (level: Exclude<LogLevel, "silent">, message: string, fields?: LogFields) => {
+    if (LEVELS[level] < minLevel) {
+      return;
+    }
+
+    let extra: LogFields | undefined = options.logger ? { component } : undefined;
+
+    if (dedupeInterval > 0 && (level === "warn" || level === "error")) {
+      const key = `${level}:${message}:${errorKey(fields?.error)}`;
+      const now = Date.now();
+      const previous = recent.get(key);
+
+      if (previous && now - previous.loggedAt < dedupeInterval) {
+        previous.suppressed++;
+        return;
+      }
+
+      if (previous?.suppressed) {
+        extra = { ...extra, suppressed: previous.suppressed };
+      }
+      recent.set(key, { loggedAt: now, suppressed: 0 });
+    }
+
+    target[level](message, extra || fields ? { ...extra, ...fields } : undefined);
+  };
+
+  return {
+    debug: (message, fields) => log("debug", message, fields),
+    info: (message, fields) => log("info", message, fields),
+    warn: (message, fields) => log("warn", message, fields),
+    error: (message, fields) => log("error", message, fields),
+  };
+}
+
+/**
+ * The stable part of a logged error: its name, plus its status or code when
+ * it has one. Messages are left out as they often hold request details.
+ */
+function errorKey(error: unknown): string {
+  if (typeof error !== "object" || error === null) {
+    return "";
+  }
+
+  const { name, status, code } = error as { name?: unknown; status?: unknown; code?: unknown };
+  return [name, status, code].filter((part) => part !== undefined).join(":");
+}
+
+/**
+ * Default logger: writes to the console with a `[Component]` prefix.
+ */
+function consoleLogger(component: string): PendoLogger {
+  const write =
+    (method: "debug" | "info" | "warn" | "error") => (message: string, fields?: LogFields) => {
+      if (fields) {
+        console[method](`[${component}] ${message}`, fields);
+      } else {
+        console[method](`[${component}] ${message}`);
+      }
+    };
+
+  return {
+    debug: write("debug"),
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error"),
+  };
+}
@@ -0,0 +1,112 @@
+import type { EvaluationContext, EvaluationContextValue } from "@openfeature/server-sdk";
+
+export type MetadataValue = string | number | boolean;
+
+/**
+ * Visitor and account metadata sent with a segment flag request.
+ */
+export interface ForwardedMetadata {
+  visitor?: Record<string, MetadataValue>;
+  account?: Record<string, MetadataValue>;
+}
+
+export interface MetadataForwardingOptions {
+  /**
+   * Forward context attributes named "visitor.<field>" and "account.<field>"
+   * as visitor/account metadata field <field>.
+   * Default: true
+   */
+  prefixes?: boolean;
+
+  /**
+   * Context attributes forwarded as visitor metadata under the same name.
+   */
+  visitorAttributes?: string[];
+
+  /**
+   * Context attributes forwarded as account metadata under the same name.
+   */
+  accountAttributes?: string[];
+}
+
+/**
+ * Collect the metadata to forward from an evaluation context.
+ * Strings, numbers and booleans are forwarded as-is and dates as epoch
+ * milliseconds; other values are skipped.
+ *
+ * @returns The metadata, or undefined if there is none to forward
+ */
+export function extractMetadata(
+  context: EvaluationContext,
+  options: MetadataForwardingOptions
+): ForwardedMetadata | undefined {
+  const visitor: Record<string, MetadataValue> = {};
+  const account: Record<string, MetadataValue> = {};
+
+  if (options.prefixes ?? true) {
+    for (const [key, value] of Object.entries(context)) {
+      if (key.startsWith("visitor.")) {
+        addField(visitor, key.slice("visitor.".length), value);
+      } else if (key.startsWith("account.")) {
+        addField(account, key.slice("account.".length), value);
+      }
+    }
+  }
+
+  for (const key of options.visitorAttributes ?? []) {
+    addField(visitor, key, context[key]);
+  }
+  for (const key of options.accountAttributes ?? []) {
+    addField(account, key, context[key]);
+  }
+
+  const metadata: ForwardedMetadata = {};
+  if (Object.keys(visitor).length > 0) {
+    metadata.visitor = visitor;
+  }
+  if (Object.keys(account).length > 0) {
+    metadata.account = account;
+  }
+
+  return metadata.visitor || metadata.account ? metadata : undefined;
+}
+
+/**
+ * Stable hash of forwarded metadata for use in cache keys. Independent of the
+ * order in which fields were added.
+ */
+export function hashMetadata(metadata: ForwardedMetadata): string {
+  const canonical = JSON.stringify([
+    sortedEntries(metadata.visitor),
+    sortedEntries(metadata.account),
+  ]);
+
+  // 32-bit FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < canonical.length; i++) {
+    hash ^= canonical.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+function addField(
+  target: Record<string, MetadataValue>,
+  field: string,
+  value: EvaluationContextValue | undefined
+): void {
+  if (!field) {
+    return;
+  }
+
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    target[field] = value;
+  } else if (value instanceof Date) {
+    target[field] = value.getTime();
+  }
+}
+
+function sortedEntries(fields: Record<string, MetadataValue> = {}): [string, MetadataValue][] {
+  return Object.entries(fields).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+}
@@ -0,0 +1 @@
+export { localFlagsFile } from "./localFlagsFile";
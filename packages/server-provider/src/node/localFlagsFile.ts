@@ -0,0 +1,28 @@
+import { unwatchFile, watchFile } from "fs";
+import { readFile } from "fs/promises";
+import type { LocalFlagsFile } from "../LocalFlagSource";
+
+/**
+ * A local flags file read with `fs`, for the provider's `localFlags.file`
+ * option. Watching polls the file and doesn't keep the process alive.
+ *
+ * @example
+ * ```typescript
+ * import { localFlagsFile } from '@pendo/openfeature-server-provider/node';
+ *
+ * const provider = new PendoProvider({
+ *   localFlags: { file: localFlagsFile('./pendo-flags.json'), watch: true },
+ * });
+ * ```
+ */
+export function localFlagsFile(path: string): LocalFlagsFile {
+  return {
+    path,
+    read: () => readFile(path, "utf8"),
+    watch: (onChange, interval) => {
+      const listener = () => onChange();
+      watchFile(path, { interval, persistent: false }, listener);
+      return () => unwatchFile(path, listener);
+    },
+  };
+}
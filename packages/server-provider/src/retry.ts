@@ -0,0 +1,148 @@
+import { ParseError } from "@openfeature/server-sdk";
+import { CircuitOpenError, JzbError, PendoApiError } from "./errors";
+
+export interface RetryOptions {
+  /**
+   * Total number of attempts, including the first one.
+   * Default: 1 (no retries)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay in milliseconds before the first retry. Doubles on each retry.
+   * Default: 200
+   */
+  baseDelay?: number;
+
+  /**
+   * Upper bound in milliseconds for the backoff delay.
+   * Does not apply to delays requested by a Retry-After header.
+   * Default: 5000
+   */
+  maxDelay?: number;
+
+  /**
+   * Longest delay in milliseconds requested by a Retry-After header that is
+   * waited for. A longer delay gives up immediately instead of holding the
+   * evaluation (and every evaluation sharing its request) that long.
+   * Default: 10000
+   */
+  maxRetryAfter?: number;
+
+  /**
+   * Fraction (0-1) of each backoff delay that is randomized, to spread out
+   * retries from many processes.
+   * Default: 0.2
+   */
+  jitter?: number;
+
+  /**
+   * HTTP status codes that are retried. Network errors are always retried.
+   * Default: [429, 500, 502, 503, 504]
+   */
+  retryableStatuses?: number[];
+}
+
+export type RetryPolicy = Required<RetryOptions>;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  baseDelay: 200,
+  maxDelay: 5000,
+  maxRetryAfter: 10000,
+  jitter: 0.2,
+  retryableStatuses: [429, 500, 502, 503, 504],
+};
+
+/**
+ * Run an operation, retrying failures with exponential backoff.
+ *
+ * Gives up and rethrows the last error when attempts are exhausted, the error
+ * isn't retryable, its Retry-After delay is longer than `maxRetryAfter`, or
+ * waiting for the next attempt would pass `deadline` (epoch milliseconds).
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy,
+  deadline?: number
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryable(error, policy)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(error, attempt, policy);
+      if (exceedsMaxRetryAfter(error, policy)) {
+        throw error;
+      }
+
+      if (deadline !== undefined && Date.now() + delay >= deadline) {
+        throw error;
+      }
+
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date).
+ * @returns The delay in milliseconds, or undefined if absent or invalid
+ */
+export function parseRetryAfter(header: string | null | undefined): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(header.trim())) {
+    return Number(header.trim()) * 1000;
+  }
+
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - Date.now());
+}
+
+function isRetryable(error: unknown, policy: RetryPolicy): boolean {
+  if (
+    error instanceof CircuitOpenError ||
+    error instanceof ParseError ||
+    error instanceof JzbError
+  ) {
+    return false;
+  }
+
+  if (error instanceof PendoApiError) {
+    return policy.retryableStatuses.includes(error.status);
+  }
+
+  // Anything else is a network-level failure from fetch
+  return true;
+}
+
+function exceedsMaxRetryAfter(error: unknown, policy: RetryPolicy): boolean {
+  return (
+    error instanceof PendoApiError &&
+    error.retryAfter !== undefined &&
+    error.retryAfter > policy.maxRetryAfter
+  );
+}
+
+function getRetryDelay(error: unknown, attempt: number, policy: RetryPolicy): number {
+  if (error instanceof PendoApiError && error.retryAfter !== undefined) {
+    return error.retryAfter;
+  }
+
+  const backoff = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  return backoff - backoff * policy.jitter * Math.random();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
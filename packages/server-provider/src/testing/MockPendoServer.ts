@@ -0,0 +1,377 @@
+import { createServer } from "http";
+import type { IncomingMessage, Server, ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { decodeJzb } from "../jzb";
+import type { TrackEvent } from "../TrackEventQueue";
+
+/**
+ * A segment flag request as decoded from its `jzb` payload.
+ */
+export interface SegmentFlagRequestPayload {
+  visitorId: string;
+  accountId?: string;
+  url: string;
+  metadata?: {
+    visitor?: Record<string, unknown>;
+    account?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Which segment flag requests a segment matches: the given fields must all
+ * equal the request's (a list matches any of its values), or a function
+ * decides.
+ */
+export type SegmentMatcher =
+  | {
+      visitorId?: string | string[];
+      accountId?: string | string[];
+      url?: string | string[];
+    }
+  | ((request: SegmentFlagRequestPayload) => boolean);
+
+/**
+ * A scripted response for the next segment flag request.
+ */
+export interface ScriptedResponse {
+  /**
+   * HTTP status, e.g. 202, 429, 451 or 503.
+   */
+  status: number;
+
+  /**
+   * Response body, serialized as JSON unless it is a string.
+   * Default: none
+   */
+  body?: unknown;
+
+  /**
+   * Response headers, e.g. `{ "Retry-After": "1" }`.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Delay in milliseconds before responding, on top of the server latency.
+   * Default: 0
+   */
+  delay?: number;
+}
+
+export interface MockPendoServerOptions {
+  /**
+   * API key segment flag requests must use. Other keys get a 401.
+   * Default: any key is accepted
+   */
+  apiKey?: string;
+
+  /**
+   * Secret track requests must send in `x-pendo-track-event-secret`. Other
+   * or missing secrets get a 401.
+   * Default: any non-empty secret is accepted
+   */
+  trackEventSecret?: string;
+
+  /**
+   * Port to listen on.
+   * Default: 0 (a free port)
+   */
+  port?: number;
+
+  /**
+   * Delay in milliseconds before every response.
+   * Default: 0
+   */
+  latency?: number;
+}
+
+interface Segment {
+  flag: string;
+  matches: (request: SegmentFlagRequestPayload) => boolean;
+}
+
+/**
+ * In-process HTTP server implementing the Pendo data API endpoints used by
+ * the provider, for integration tests:
+ *
+ * - `GET /data/segmentflag.json/:apiKey?jzb=...` (or a POST with a
+ *   form-encoded `jzb` body) decodes the JZB payload and responds with the
+ *   flags of every matching segment, or the next scripted response
+ * - `POST /data/track` validates the track event secret and captures the
+ *   event; like the real API, it takes one event object per request
+ *
+ * @example
+ * ```typescript
+ * import { MockPendoServer } from '@pendo/openfeature-server-provider/testing';
+ *
+ * const server = new MockPendoServer({ apiKey: 'test-key' });
+ * await server.start();
+ * server.addSegment('beta-testers', { visitorId: 'user-123' });
+ *
+ * const provider = new PendoProvider({
+ *   apiKey: 'test-key',
+ *   defaultUrl: 'https://myapp.example.com',
+ *   baseUrl: server.url,
+ * });
+ *
+ * // ...
+ * await server.stop();
+ * ```
+ */
+export class MockPendoServer {
+  /**
+   * Decoded payloads of every segment flag request received.
+   */
+  readonly segmentFlagRequests: SegmentFlagRequestPayload[] = [];
+
+  /**
+   * Every track event received.
+   */
+  readonly trackEvents: TrackEvent[] = [];
+
+  /**
+   * Delay in milliseconds before every response.
+   */
+  latency: number;
+
+  private options: MockPendoServerOptions;
+  private server: Server | null = null;
+  private segments: Segment[] = [];
+  private scripted: ScriptedResponse[] = [];
+
+  constructor(options: MockPendoServerOptions = {}) {
+    this.options = options;
+    this.latency = options.latency ?? 0;
+  }
+
+  /**
+   * Base URL of the running server, for the provider's `baseUrl` option.
+   *
+   * @throws Error if the server isn't running
+   */
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    if (!address) {
+      throw new Error("MockPendoServer is not running");
+    }
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /**
+   * Start listening.
+   *
+   * @returns The base URL of the server
+   */
+  async start(): Promise<string> {
+    if (!this.server) {
+      const server = createServer((req, res) => {
+        void this.handle(req, res);
+      });
+      this.server = server;
+      await new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(this.options.port ?? 0, "127.0.0.1", () => resolve());
+      });
+    }
+    return this.url;
+  }
+
+  /**
+   * Stop listening and close open connections.
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections?.();
+    });
+  }
+
+  /**
+   * Serve `flag` to segment flag requests the matcher matches.
+   */
+  addSegment(flag: string, matcher: SegmentMatcher = {}): this {
+    this.segments.push({ flag, matches: toMatcher(matcher) });
+    return this;
+  }
+
+  /**
+   * Respond to upcoming segment flag requests with the given responses, in
+   * order, before resuming normal responses.
+   */
+  enqueueResponse(...responses: ScriptedResponse[]): this {
+    this.scripted.push(...responses);
+    return this;
+  }
+
+  /**
+   * Remove all segments, scripted responses and captured requests and events.
+   */
+  reset(): void {
+    this.segments = [];
+    this.scripted = [];
+    this.segmentFlagRequests.length = 0;
+    this.trackEvents.length = 0;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const url = new URL(req.url ?? "/", "http://127.0.0.1");
+      const segmentFlagPath = url.pathname.match(/^\/data\/segmentflag\.json\/([^/]+)$/);
+
+      if (segmentFlagPath && (req.method === "GET" || req.method === "POST")) {
+        const jzb =
+          req.method === "POST"
+            ? new URLSearchParams(await readBody(req)).get("jzb")
+            : url.searchParams.get("jzb");
+        await this.handleSegmentFlags(decodeURIComponent(segmentFlagPath[1]), jzb, res);
+      } else if (url.pathname === "/data/track" && req.method === "POST") {
+        await this.handleTrack(req, res);
+      } else {
+        await this.respond(res, { status: 404, body: { error: "Not found" } });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.respond(res, { status: 500, body: { error: message } });
+    }
+  }
+
+  private async handleSegmentFlags(
+    apiKey: string,
+    jzb: string | null,
+    res: ServerResponse
+  ): Promise<void> {
+    if (this.options.apiKey !== undefined && apiKey !== this.options.apiKey) {
+      await this.respond(res, { status: 401, body: { error: "Invalid API key" } });
+      return;
+    }
+
+    let payload: SegmentFlagRequestPayload;
+    try {
+      payload = decodePayload(jzb);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.respond(res, { status: 400, body: { error: message } });
+      return;
+    }
+
+    this.segmentFlagRequests.push(payload);
+
+    const scripted = this.scripted.shift();
+    if (scripted) {
+      await this.respond(res, scripted);
+      return;
+    }
+
+    const flags = [
+      ...new Set(this.segments.filter((s) => s.matches(payload)).map((s) => s.flag)),
+    ];
+    await this.respond(res, { status: 200, body: { segmentFlags: flags } });
+  }
+
+  private async handleTrack(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const secret = req.headers["x-pendo-track-event-secret"];
+    const expected = this.options.trackEventSecret;
+    if (typeof secret !== "string" || !secret || (expected !== undefined && secret !== expected)) {
+      await this.respond(res, { status: 401, body: { error: "Invalid track event secret" } });
+      return;
+    }
+
+    let event: unknown;
+    try {
+      event = JSON.parse(await readBody(req));
+    } catch {
+      await this.respond(res, { status: 400, body: { error: "Invalid JSON" } });
+      return;
+    }
+
+    // The Track Events API takes a single event object per request
+    if (!isTrackEvent(event)) {
+      await this.respond(res, { status: 400, body: { error: "Invalid track event" } });
+      return;
+    }
+
+    this.trackEvents.push(event);
+    await this.respond(res, { status: 200, body: {} });
+  }
+
+  private async respond(res: ServerResponse, response: ScriptedResponse): Promise<void> {
+    const delay = this.latency + (response.delay ?? 0);
+    if (delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    const body =
+      response.body === undefined
+        ? ""
+        : typeof response.body === "string"
+          ? response.body
+          : JSON.stringify(response.body);
+
+    res.writeHead(response.status, {
+      ...(response.body !== undefined && typeof response.body !== "string"
+        ? { "Content-Type": "application/json" }
+        : {}),
+      ...response.headers,
+    });
+    res.end(body);
+  }
+}
+
+function toMatcher(matcher: SegmentMatcher): (request: SegmentFlagRequestPayload) => boolean {
+  if (typeof matcher === "function") {
+    return matcher;
+  }
+
+  const fields = Object.entries(matcher).filter(([, value]) => value !== undefined) as [
+    keyof SegmentFlagRequestPayload,
+    string | string[],
+  ][];
+
+  return (request) =>
+    fields.every(([field, value]) =>
+      Array.isArray(value) ? value.includes(request[field] as string) : request[field] === value
+    );
+}
+
+/**
+ * Decode the `jzb` parameter of a segment flag request.
+ *
+ * @throws Error describing why the parameter is missing or invalid
+ */
+function decodePayload(jzb: string | null): SegmentFlagRequestPayload {
+  if (!jzb) {
+    throw new Error("Missing jzb query parameter");
+  }
+
+  const payload = decodeJzb(jzb);
+  if (typeof payload.visitorId !== "string") {
+    throw new Error("JZB payload has no visitorId");
+  }
+  return payload as unknown as SegmentFlagRequestPayload;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+function isTrackEvent(value: unknown): value is TrackEvent {
+  const event = value as Partial<TrackEvent> | null;
+  return (
+    typeof event === "object" &&
+    event !== null &&
+    event.type === "track" &&
+    typeof event.event === "string" &&
+    typeof event.visitorId === "string" &&
+    typeof event.timestamp === "number"
+  );
+}
@@ -0,0 +1,7 @@
+export { MockPendoServer } from "./MockPendoServer";
+export type {
+  MockPendoServerOptions,
+  ScriptedResponse,
+  SegmentFlagRequestPayload,
+  SegmentMatcher,
+} from "./MockPendoServer";
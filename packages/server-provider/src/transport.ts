@@ -0,0 +1,46 @@
+/**
+ * A `fetch`-compatible function used for requests to the Pendo data API.
+ */
+export type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Extra headers sent with every request: a fixed set, or a function called
+ * before each request (including retries).
+ */
+export type HeadersOption =
+  | Record<string, string>
+  | (() => Record<string, string> | Promise<Record<string, string>>);
+
+export interface TransportOptions {
+  /**
+   * fetch implementation used for requests to Pendo, e.g. one that routes
+   * through a proxy, uses mTLS or a keep-alive agent.
+   * Default: the global fetch
+   */
+  fetch?: FetchFunction;
+
+  /**
+   * Extra headers sent with every request to Pendo (e.g. a request ID).
+   * Headers set by the provider take precedence.
+   */
+  headers?: HeadersOption;
+}
+
+/**
+ * Send a request with the configured transport. Extra headers are added
+ * first so they can't override the ones set by the caller.
+ */
+export async function transportFetch(
+  options: TransportOptions,
+  url: string,
+  init: RequestInit & { headers: Record<string, string> }
+): Promise<Response> {
+  const extraHeaders =
+    typeof options.headers === "function" ? await options.headers() : options.headers;
+  const fetchFn = options.fetch ?? fetch;
+
+  return fetchFn(url, {
+    ...init,
+    headers: { ...extraHeaders, ...init.headers },
+  });
+}
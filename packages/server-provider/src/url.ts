@@ -0,0 +1,54 @@
+export interface UrlNormalizationOptions {
+  /**
+   * Remove the #fragment.
+   * Default: true
+   */
+  stripHash?: boolean;
+
+  /**
+   * Remove the query string: true removes all of it, a list of parameter
+   * names removes only those (e.g. ["utm_source", "utm_medium"]). Remaining
+   * parameters are sorted so equivalent URLs share a cache entry.
+   * Default: true
+   */
+  stripQuery?: boolean | string[];
+}
+
+/**
+ * Normalize a page URL before it is sent to Pendo and used in the cache key.
+ * Relative URLs (e.g. "/checkout") are resolved against `baseUrl`.
+ *
+ * @returns The normalized URL, or undefined if it can't be parsed
+ */
+export function normalizeUrl(
+  value: string,
+  baseUrl: string,
+  options: UrlNormalizationOptions = {}
+): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(value, baseUrl);
+  } catch {
+    return undefined;
+  }
+
+  if (options.stripHash ?? true) {
+    url.hash = "";
+  }
+
+  const stripQuery = options.stripQuery ?? true;
+  if (stripQuery === true) {
+    url.search = "";
+  } else if (stripQuery) {
+    for (const name of stripQuery) {
+      url.searchParams.delete(name);
+    }
+    url.searchParams.sort();
+    // Avoid a trailing "?" when every parameter was removed
+    if (!url.search) {
+      url.search = "";
+    }
+  }
+
+  return url.toString();
+}
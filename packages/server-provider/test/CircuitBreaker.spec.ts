@@ -0,0 +1,90 @@
+import { CircuitBreaker } from '../src/CircuitBreaker';
+
+describe('CircuitBreaker', () => {
+  let onStateChange: jest.Mock;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    onStateChange = jest.fn();
+    breaker = new CircuitBreaker({ failureThreshold: 3, cooldown: 1000 }, onStateChange);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const fail = (times: number) => {
+    for (let i = 0; i < times; i++) {
+      breaker.allowRequest();
+      breaker.recordFailure();
+    }
+  };
+
+  it('starts closed and allows requests', () => {
+    expect(breaker.state).toBe('closed');
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it('opens after failureThreshold consecutive failures', () => {
+    fail(2);
+    expect(breaker.state).toBe('closed');
+
+    fail(1);
+    expect(breaker.state).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+    expect(onStateChange).toHaveBeenCalledWith('open', 'closed');
+  });
+
+  it('resets the failure count on success', () => {
+    fail(2);
+    breaker.recordSuccess();
+    fail(2);
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('allows a single trial request after the cooldown', () => {
+    fail(3);
+
+    jest.advanceTimersByTime(999);
+    expect(breaker.allowRequest()).toBe(false);
+
+    jest.advanceTimersByTime(1);
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('closes when the trial request succeeds', () => {
+    fail(3);
+    jest.advanceTimersByTime(1000);
+
+    breaker.allowRequest();
+    breaker.recordSuccess();
+
+    expect(breaker.state).toBe('closed');
+    expect(onStateChange).toHaveBeenLastCalledWith('closed', 'half-open');
+  });
+
+  it('reopens when the trial request fails', () => {
+    fail(3);
+    jest.advanceTimersByTime(1000);
+
+    breaker.allowRequest();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('reset closes the breaker without notifying', () => {
+    fail(3);
+    onStateChange.mockClear();
+
+    breaker.reset();
+
+    expect(breaker.state).toBe('closed');
+    expect(onStateChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,174 @@
+import { KeyValueSegmentFlagCache } from '../src/KeyValueSegmentFlagCache';
+import type { KeyValueClient } from '../src/KeyValueSegmentFlagCache';
+import { PendoProvider } from '../src/PendoProvider';
+
+/**
+ * In-process stand-in for a Redis/Memcached client.
+ */
+class FakeKeyValueClient implements KeyValueClient {
+  store = new Map<string, { value: string; expiresAt: number }>();
+
+  async get(key: string) {
+    const item = this.store.get(key);
+    if (!item || item.expiresAt <= Date.now()) {
+      return null;
+    }
+    return item.value;
+  }
+
+  async set(key: string, value: string, ttl: number) {
+    this.store.set(key, { value, expiresAt: Date.now() + ttl });
+  }
+
+  async delete(key: string) {
+    this.store.delete(key);
+  }
+
+  async deleteByPrefix(prefix: string) {
+    for (const key of this.store.keys()) {
+      if (key.startsWith(prefix)) {
+        this.store.delete(key);
+      }
+    }
+  }
+}
+
+describe('KeyValueSegmentFlagCache', () => {
+  let client: FakeKeyValueClient;
+  let cache: KeyValueSegmentFlagCache;
+
+  beforeEach(() => {
+    client = new FakeKeyValueClient();
+    cache = new KeyValueSegmentFlagCache(client);
+  });
+
+  it('stores entries as JSON under the key prefix', async () => {
+    const entry = { flags: ['flag1'], expiresAt: 12345 };
+    await cache.set('user-123:', entry, 1000);
+
+    expect(client.store.get('pendo:segmentflags:user-123:')?.value).toBe(JSON.stringify(entry));
+    expect(await cache.get('user-123:')).toEqual(entry);
+  });
+
+  it('supports a custom key prefix', async () => {
+    cache = new KeyValueSegmentFlagCache(client, { keyPrefix: 'app1:' });
+    await cache.set('user-123:', { flags: [], expiresAt: 0 }, 1000);
+
+    expect(client.store.has('app1:user-123:')).toBe(true);
+  });
+
+  it('round-trips the visitor status and ignores unknown values', async () => {
+    await cache.set('opted-out:', { flags: [], visitorStatus: 'optedOut', expiresAt: 1 }, 1000);
+    await client.set(
+      'pendo:segmentflags:bogus:',
+      JSON.stringify({ flags: [], visitorStatus: 'bogus', expiresAt: 1 }),
+      1000
+    );
+
+    expect(await cache.get('opted-out:')).toEqual({
+      flags: [],
+      visitorStatus: 'optedOut',
+      expiresAt: 1,
+    });
+    expect(await cache.get('bogus:')).toEqual({ flags: [], expiresAt: 1 });
+  });
+
+  it('round-trips the fetch time and ignores invalid values', async () => {
+    await cache.set('fetched:', { flags: ['flag1'], fetchedAt: 500, expiresAt: 1 }, 1000);
+    await client.set(
+      'pendo:segmentflags:invalid:',
+      JSON.stringify({ flags: [], fetchedAt: 'yesterday', expiresAt: 1 }),
+      1000
+    );
+
+    expect(await cache.get('fetched:')).toEqual({ flags: ['flag1'], fetchedAt: 500, expiresAt: 1 });
+    expect(await cache.get('invalid:')).toEqual({ flags: [], expiresAt: 1 });
+  });
+
+  it('returns undefined for missing keys', async () => {
+    expect(await cache.get('missing')).toBeUndefined();
+  });
+
+  it('treats malformed values as cache misses', async () => {
+    await client.set('pendo:segmentflags:bad-json', '{not json', 1000);
+    await client.set('pendo:segmentflags:bad-shape', JSON.stringify({ flags: 'flag1' }), 1000);
+
+    expect(await cache.get('bad-json')).toBeUndefined();
+    expect(await cache.get('bad-shape')).toBeUndefined();
+  });
+
+  it('delete removes a single entry', async () => {
+    await cache.set('a', { flags: [], expiresAt: 0 }, 1000);
+    await cache.delete('a');
+
+    expect(client.store.size).toBe(0);
+  });
+
+  it('clear removes only prefixed keys', async () => {
+    await client.set('other:key', 'value', 1000);
+    await cache.set('a', { flags: [], expiresAt: 0 }, 1000);
+    await cache.set('b', { flags: [], expiresAt: 0 }, 1000);
+
+    await cache.clear();
+
+    expect([...client.store.keys()]).toEqual(['other:key']);
+  });
+
+  it('clear is a no-op when the client cannot delete by prefix', async () => {
+    cache = new KeyValueSegmentFlagCache({
+      get: (key) => client.get(key),
+      set: (key, value, ttl) => client.set(key, value, ttl),
+      delete: (key) => client.delete(key),
+    });
+    await cache.set('a', { flags: [], expiresAt: 0 }, 1000);
+
+    await expect(cache.clear()).resolves.toBeUndefined();
+    expect(client.store.size).toBe(1);
+  });
+
+  it('close leaves the shared store intact', async () => {
+    await cache.set('a', { flags: [], expiresAt: 0 }, 1000);
+    await cache.close();
+
+    expect(client.store.size).toBe(1);
+  });
+
+  describe('with PendoProvider', () => {
+    let mockFetch: jest.Mock;
+    let originalFetch: typeof global.fetch;
+
+    beforeEach(() => {
+      mockFetch = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['flag1'] }),
+      });
+      originalFetch = global.fetch;
+      global.fetch = mockFetch;
+    });
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('shares segment flags between providers', async () => {
+      const options = {
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        cache: new KeyValueSegmentFlagCache(client),
+      };
+      const replicaA = new PendoProvider(options);
+      const replicaB = new PendoProvider(options);
+      await replicaA.initialize();
+      await replicaB.initialize();
+
+      await replicaA.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-123' });
+      const result = await replicaB.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+      });
+
+      expect(result.value).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LocalFlagSource } from '../src/LocalFlagSource';
+import { localFlagsFile } from '../src/node';
+
+describe('LocalFlagSource', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  let dir: string;
+  let source: LocalFlagSource | undefined;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'pendo-local-flags-'));
+  });
+
+  afterEach(async () => {
+    await source?.close();
+    source = undefined;
+    rmSync(dir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  const writeFlags = (name: string, contents: string) => {
+    const path = join(dir, name);
+    writeFileSync(path, contents);
+    return path;
+  };
+
+  describe('getFlags', () => {
+    beforeEach(async () => {
+      source = new LocalFlagSource(
+        {
+          flags: {
+            default: ['everyone'],
+            visitors: { 'qa-*': ['beta-testers'], 'user-123': ['premium', 'everyone'] },
+            accounts: { acme: ['enterprise'], 'a.b': ['dotted'] },
+          },
+        },
+        logger
+      );
+      await source.load();
+    });
+
+    it('combines the default flags with every matching pattern', () => {
+      expect(source!.getFlags('user-123', 'acme')).toEqual(['everyone', 'premium', 'enterprise']);
+      expect(source!.getFlags('qa-alice')).toEqual(['everyone', 'beta-testers']);
+      expect(source!.getFlags('someone-else')).toEqual(['everyone']);
+    });
+
+    it('matches whole IDs and treats only "*" as a wildcard', () => {
+      expect(source!.getFlags('user-1234')).toEqual(['everyone']);
+      expect(source!.getFlags('x-qa-alice')).toEqual(['everyone']);
+      expect(source!.getFlags('user-1', 'axb')).toEqual(['everyone']);
+      expect(source!.getFlags('user-1', 'a.b')).toEqual(['everyone', 'dotted']);
+    });
+  });
+
+  describe('options', () => {
+    it('requires exactly one of flags and file', () => {
+      expect(() => new LocalFlagSource({}, logger)).toThrow(
+        'localFlags requires either flags or file'
+      );
+      expect(
+        () => new LocalFlagSource({ flags: {}, file: localFlagsFile('flags.json') }, logger)
+      ).toThrow('localFlags requires either flags or file');
+    });
+
+    it('requires a parser for YAML files', () => {
+      expect(() => new LocalFlagSource({ file: localFlagsFile('flags.yaml') }, logger)).toThrow(
+        'localFlags.parse is required to read YAML file "flags.yaml"'
+      );
+    });
+
+    it('requires a watchable file to watch', () => {
+      const file = { path: 'flags.json', read: async () => '{}' };
+
+      expect(() => new LocalFlagSource({ file, watch: true }, logger)).toThrow(
+        'localFlags.watch is set but file "flags.json" can\'t be watched'
+      );
+    });
+
+    it('rejects invalid flags', async () => {
+      source = new LocalFlagSource({ flags: { visitors: { 'user-1': 'beta' } } as never }, logger);
+
+      await expect(source.load()).rejects.toThrow(
+        'Local flags in localFlags.flags visitors["user-1"] must be a list of flag keys'
+      );
+    });
+  });
+
+  describe('files', () => {
+    it('reads files through the given reader', async () => {
+      const read = jest.fn(async () => JSON.stringify({ default: ['flag1'] }));
+      source = new LocalFlagSource({ file: { path: 'flags.json', read } }, logger);
+
+      await source.load();
+
+      expect(read).toHaveBeenCalledTimes(1);
+      expect(source.getFlags('user-1')).toEqual(['flag1']);
+    });
+
+    it('reads JSON files', async () => {
+      const path = writeFlags('flags.json', JSON.stringify({ default: ['flag1'] }));
+      source = new LocalFlagSource({ file: localFlagsFile(path) }, logger);
+
+      await source.load();
+
+      expect(source.getFlags('user-1')).toEqual(['flag1']);
+    });
+
+    it('reads files with a custom parser', async () => {
+      const path = writeFlags('flags.yaml', 'default: [flag1, flag2]');
+      const parse = jest.fn(() => ({ default: ['flag1', 'flag2'] }));
+      source = new LocalFlagSource({ file: localFlagsFile(path), parse }, logger);
+
+      await source.load();
+
+      expect(parse).toHaveBeenCalledWith('default: [flag1, flag2]');
+      expect(source.getFlags('user-1')).toEqual(['flag1', 'flag2']);
+    });
+
+    it('reports unparseable files', async () => {
+      const path = writeFlags('flags.json', '{ default: ');
+      source = new LocalFlagSource({ file: localFlagsFile(path) }, logger);
+
+      await expect(source.load()).rejects.toThrow(`Failed to parse local flags file "${path}"`);
+    });
+
+    it('reloads watched files when they change', async () => {
+      const path = writeFlags('flags.json', JSON.stringify({ default: ['flag1'] }));
+      let changed: () => void = () => {};
+      const reloaded = new Promise<void>((resolve) => (changed = resolve));
+      source = new LocalFlagSource(
+        { file: localFlagsFile(path), watch: true, watchInterval: 10 },
+        logger,
+        changed
+      );
+      await source.load();
+
+      // Let the watcher record the file's initial state
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      writeFlags('flags.json', JSON.stringify({ default: ['flag1', 'flag2'] }));
+      await reloaded;
+
+      expect(source.getFlags('user-1')).toEqual(['flag1', 'flag2']);
+    });
+
+    it('keeps the previous flags when a reload fails', async () => {
+      const path = writeFlags('flags.json', JSON.stringify({ default: ['flag1'] }));
+      source = new LocalFlagSource(
+        { file: localFlagsFile(path), watch: true, watchInterval: 10 },
+        logger
+      );
+      await source.load();
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      writeFlags('flags.json', '{ "default": ');
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(logger.error).toHaveBeenCalledWith(
+        'Failed to reload local flags',
+        expect.objectContaining({ path })
+      );
+      expect(source.getFlags('user-1')).toEqual(['flag1']);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { LruCache } from '../src/LruCache';
+
+describe('LruCache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('stores and returns values', () => {
+    const cache = new LruCache<string[]>({ maxEntries: 10 });
+    cache.set('a', ['flag1'], 1000);
+
+    expect(cache.get('a')).toEqual(['flag1']);
+    expect(cache.get('b')).toBeUndefined();
+  });
+
+  it('throws if maxEntries is not positive', () => {
+    expect(() => new LruCache({ maxEntries: 0 })).toThrow('maxEntries must be greater than 0');
+  });
+
+  it('evicts the least recently used entry when full', () => {
+    const cache = new LruCache<number>({ maxEntries: 2 });
+    cache.set('a', 1, 1000);
+    cache.set('b', 2, 1000);
+
+    // Touch "a" so "b" becomes least recently used
+    cache.get('a');
+    cache.set('c', 3, 1000);
+
+    expect(cache.size).toBe(2);
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBe(3);
+  });
+
+  it('overwriting a key does not grow the cache', () => {
+    const cache = new LruCache<number>({ maxEntries: 2 });
+    cache.set('a', 1, 1000);
+    cache.set('a', 2, 1000);
+
+    expect(cache.size).toBe(1);
+    expect(cache.get('a')).toBe(2);
+  });
+
+  it('evicts entries to stay within maxSize', () => {
+    const cache = new LruCache<string>({
+      maxEntries: 100,
+      maxSize: 10,
+      sizeOf: (_key, value) => value.length,
+    });
+    cache.set('a', 'aaaa', 1000);
+    cache.set('b', 'bbbb', 1000);
+    cache.set('c', 'cccc', 1000);
+
+    expect(cache.estimatedSize).toBe(8);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBe('bbbb');
+    expect(cache.get('c')).toBe('cccc');
+  });
+
+  it('skips entries larger than maxSize', () => {
+    const cache = new LruCache<string>({
+      maxEntries: 100,
+      maxSize: 3,
+      sizeOf: (_key, value) => value.length,
+    });
+    cache.set('a', 'aa', 1000);
+    cache.set('b', 'bbbb', 1000);
+
+    expect(cache.get('a')).toBe('aa');
+    expect(cache.get('b')).toBeUndefined();
+  });
+
+  it('treats expired entries as missing and removes them on read', () => {
+    jest.useFakeTimers();
+    const cache = new LruCache<number>({ maxEntries: 10 });
+    cache.set('a', 1, 100);
+
+    jest.advanceTimersByTime(101);
+
+    expect(cache.size).toBe(1);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('prune removes only expired entries', () => {
+    jest.useFakeTimers();
+    const cache = new LruCache<number>({ maxEntries: 10 });
+    cache.set('short', 1, 100);
+    cache.set('long', 2, 1000);
+
+    jest.advanceTimersByTime(101);
+
+    expect(cache.prune()).toBe(1);
+    expect(cache.size).toBe(1);
+    expect(cache.get('long')).toBe(2);
+  });
+
+  it('clear removes all entries', () => {
+    const cache = new LruCache<number>({ maxEntries: 10, maxSize: 1000 });
+    cache.set('a', 1, 1000);
+    cache.set('b', 2, 1000);
+    cache.clear();
+
+    expect(cache.size).toBe(0);
+    expect(cache.estimatedSize).toBe(0);
+  });
+
+  it('stays bounded under a long stream of unique keys', () => {
+    const cache = new LruCache<string[]>({ maxEntries: 1000, maxSize: 200000 });
+
+    for (let i = 0; i < 100000; i++) {
+      cache.set(`visitor-${i}:account-${i % 50}`, ['flag-a', 'flag-b'], 60000);
+      expect(cache.size).toBeLessThanOrEqual(1000);
+    }
+
+    expect(cache.estimatedSize).toBeLessThanOrEqual(200000);
+  });
+});
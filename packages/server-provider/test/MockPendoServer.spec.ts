@@ -0,0 +1,233 @@
+import { ErrorCode } from '@openfeature/server-sdk';
+import { PendoProvider } from '../src/PendoProvider';
+import { encodeJzb } from '../src/jzb';
+import { MockPendoServer } from '../src/testing';
+
+describe('MockPendoServer', () => {
+  let server: MockPendoServer;
+  let provider: PendoProvider;
+
+  const context = { targetingKey: 'user-123', accountId: 'acme-1' };
+
+  beforeEach(async () => {
+    server = new MockPendoServer({ apiKey: 'test-key', trackEventSecret: 'test-secret' });
+    await server.start();
+
+    provider = new PendoProvider({
+      apiKey: 'test-key',
+      trackEventSecret: 'test-secret',
+      defaultUrl: 'https://example.com',
+      baseUrl: server.url,
+      cacheTtl: 0,
+      logLevel: 'silent',
+    });
+    await provider.initialize();
+  });
+
+  afterEach(async () => {
+    await provider.onClose();
+    await server.stop();
+  });
+
+  const segmentFlagUrl = (payload: Record<string, unknown>, apiKey = 'test-key') =>
+    `${server.url}/data/segmentflag.json/${apiKey}?jzb=${encodeJzb(payload)}`;
+
+  describe('segment flags', () => {
+    it('serves the flags of matching segments to the provider', async () => {
+      server.addSegment('beta-testers', { visitorId: 'user-123' });
+      server.addSegment('enterprise', { accountId: ['acme-1', 'acme-2'] });
+      server.addSegment('other-visitor', { visitorId: 'user-456' });
+
+      const details = await provider.getAllFlags(context);
+
+      expect(details.flags).toEqual(['beta-testers', 'enterprise']);
+    });
+
+    it('captures the decoded request payloads', async () => {
+      await provider.resolveBooleanEvaluation('beta-testers', false, context);
+
+      expect(server.segmentFlagRequests).toEqual([
+        expect.objectContaining({
+          visitorId: 'user-123',
+          accountId: 'acme-1',
+          url: 'https://example.com',
+        }),
+      ]);
+    });
+
+    it('matches segments with a predicate', async () => {
+      server.addSegment('acme', (request) => request.accountId?.startsWith('acme-') ?? false);
+
+      const result = await provider.resolveBooleanEvaluation('acme', false, context);
+      expect(result.value).toBe(true);
+
+      const other = await provider.resolveBooleanEvaluation('acme', false, {
+        targetingKey: 'user-123',
+        accountId: 'globex',
+      });
+      expect(other.value).toBe(false);
+    });
+
+    it('accepts segment flag requests sent as a POST', async () => {
+      await provider.onClose();
+      provider = new PendoProvider({
+        apiKey: 'test-key',
+        defaultUrl: 'https://example.com',
+        baseUrl: server.url,
+        maxUrlLength: 0,
+        logLevel: 'silent',
+      });
+      await provider.initialize();
+      server.addSegment('beta-testers', { visitorId: 'user-123' });
+
+      const result = await provider.resolveBooleanEvaluation('beta-testers', false, context);
+
+      expect(result.value).toBe(true);
+      expect(server.segmentFlagRequests).toEqual([
+        expect.objectContaining({ visitorId: 'user-123', accountId: 'acme-1' }),
+      ]);
+    });
+
+    it('rejects other API keys', async () => {
+      const response = await fetch(segmentFlagUrl({ visitorId: 'user-123' }, 'wrong-key'));
+      expect(response.status).toBe(401);
+      expect(server.segmentFlagRequests).toHaveLength(0);
+    });
+
+    it('rejects missing or invalid jzb payloads', async () => {
+      const missing = await fetch(`${server.url}/data/segmentflag.json/test-key`);
+      expect(missing.status).toBe(400);
+
+      const invalid = await fetch(`${server.url}/data/segmentflag.json/test-key?jzb=not-jzb`);
+      expect(invalid.status).toBe(400);
+    });
+
+    it('responds 404 to unknown paths', async () => {
+      const response = await fetch(`${server.url}/data/unknown`);
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('scripted responses', () => {
+    it('serves scripted responses in order before resuming normal responses', async () => {
+      server.addSegment('beta-testers', { visitorId: 'user-123' });
+      server.enqueueResponse({ status: 202 }, { status: 451 });
+
+      const unknown = await provider.resolveBooleanEvaluation('beta-testers', false, context);
+      expect(unknown.reason).toBe('VISITOR_UNKNOWN');
+
+      const optedOut = await provider.resolveBooleanEvaluation('beta-testers', false, {
+        targetingKey: 'user-123',
+        accountId: 'acme-2',
+      });
+      expect(optedOut.reason).toBe('VISITOR_OPTED_OUT');
+
+      const matched = await provider.resolveBooleanEvaluation('beta-testers', false, {
+        targetingKey: 'user-123',
+      });
+      expect(matched.value).toBe(true);
+    });
+
+    it('scripts rate limiting for the provider to retry', async () => {
+      await provider.onClose();
+      provider = new PendoProvider({
+        apiKey: 'test-key',
+        defaultUrl: 'https://example.com',
+        baseUrl: server.url,
+        retry: { maxAttempts: 2, baseDelay: 1, jitter: 0 },
+        logLevel: 'silent',
+      });
+      await provider.initialize();
+
+      server.addSegment('beta-testers', { visitorId: 'user-123' });
+      server.enqueueResponse({ status: 429, headers: { 'Retry-After': '0' } });
+
+      const result = await provider.resolveBooleanEvaluation('beta-testers', false, context);
+
+      expect(result.value).toBe(true);
+      expect(server.segmentFlagRequests).toHaveLength(2);
+    });
+
+    it('scripts server errors', async () => {
+      server.enqueueResponse({ status: 503, body: 'Service Unavailable' });
+
+      const result = await provider.resolveBooleanEvaluation('beta-testers', false, context);
+
+      expect(result.value).toBe(false);
+      expect(result.errorCode).toBe(ErrorCode.GENERAL);
+    });
+
+    it('delays responses by the scripted delay and server latency', async () => {
+      server.latency = 20;
+      server.enqueueResponse({ status: 200, body: { segmentFlags: [] }, delay: 30 });
+
+      const start = Date.now();
+      await fetch(segmentFlagUrl({ visitorId: 'user-123' }));
+
+      expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+    });
+  });
+
+  describe('track events', () => {
+    it('captures track events sent by the provider', async () => {
+      provider.track('checkout', context, { value: 1 });
+      await provider.onClose();
+
+      expect(server.trackEvents).toEqual([
+        expect.objectContaining({
+          type: 'track',
+          event: 'checkout',
+          visitorId: 'user-123',
+          accountId: 'acme-1',
+          properties: { value: 1 },
+        }),
+      ]);
+    });
+
+    it('rejects other track event secrets', async () => {
+      const response = await fetch(`${server.url}/data/track`, {
+        method: 'POST',
+        headers: { 'x-pendo-track-event-secret': 'wrong-secret' },
+        body: JSON.stringify({ type: 'track', event: 'checkout', visitorId: 'user-123', timestamp: 1 }),
+      });
+
+      expect(response.status).toBe(401);
+      expect(server.trackEvents).toHaveLength(0);
+    });
+
+    it('rejects malformed track events', async () => {
+      const response = await fetch(`${server.url}/data/track`, {
+        method: 'POST',
+        headers: { 'x-pendo-track-event-secret': 'test-secret' },
+        body: JSON.stringify({ event: 'checkout' }),
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('rejects arrays of track events', async () => {
+      const response = await fetch(`${server.url}/data/track`, {
+        method: 'POST',
+        headers: { 'x-pendo-track-event-secret': 'test-secret' },
+        body: JSON.stringify([
+          { type: 'track', event: 'checkout', visitorId: 'user-123', timestamp: 1 },
+        ]),
+      });
+
+      expect(response.status).toBe(400);
+      expect(server.trackEvents).toHaveLength(0);
+    });
+  });
+
+  it('reset clears segments, scripted responses and captures', async () => {
+    server.addSegment('beta-testers');
+    server.enqueueResponse({ status: 503 });
+    await fetch(segmentFlagUrl({ visitorId: 'user-123' }));
+
+    server.reset();
+
+    const response = await fetch(segmentFlagUrl({ visitorId: 'user-123' }));
+    expect(await response.json()).toEqual({ segmentFlags: [] });
+    expect(server.segmentFlagRequests).toHaveLength(1);
+  });
+});
@@ -1,5 +1,17 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import pako from 'pako';
 import { PendoProvider } from '../src/PendoProvider';
-import { ServerProviderStatus, ErrorCode } from '@openfeature/server-sdk';
+import type { PendoProviderOptions } from '../src/PendoProvider';
+import { decodeJzb } from '../src/jzb';
+import { localFlagsFile } from '../src/node';
+import { LruCache } from '../src/LruCache';
+import { MemorySegmentFlagCache } from '../src/SegmentFlagCache';
+import { TrackEventQueue } from '../src/TrackEventQueue';
+import type { SegmentFlagCache } from '../src/SegmentFlagCache';
+import type { EvaluationContextValue } from '@openfeature/server-sdk';
+import { ServerProviderStatus, ErrorCode, ProviderEvents } from '@openfeature/server-sdk';
 
 describe('PendoProvider', () => {
   let provider: PendoProvider;
@@ -22,6 +34,13 @@ describe('PendoProvider', () => {
     jest.restoreAllMocks();
   });
 
+  // Decode the JZB payload of a segment flag request
+  const requestPayload = (call: number) => {
+    const jzb = new URL(mockFetch.mock.calls[call][0]).searchParams.get('jzb')!;
+    const base64 = jzb.replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(pako.inflate(Buffer.from(base64, 'base64'), { to: 'string' }));
+  };
+
   describe('metadata', () => {
     it('has correct provider name', () => {
       expect(provider.metadata.name).toBe('pendo-server-provider');
@@ -104,6 +123,8 @@ describe('PendoProvider', () => {
     });
 
     it('returns default value when no targetingKey provided', async () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+
       const result = await provider.resolveBooleanEvaluation(
         'feature-a',
         true,
@@ -111,12 +132,46 @@ describe('PendoProvider', () => {
       );
 
       expect(result.value).toBe(true);
-      expect(result.reason).toBe('DEFAULT');
-      expect(result.variant).toBe('default');
+      expect(result.reason).toBe('ERROR');
+      expect(result.errorCode).toBe(ErrorCode.TARGETING_KEY_MISSING);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('returns INVALID_CONTEXT for a non-string accountId', async () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+
+      const result = await provider.resolveBooleanEvaluation('feature-a', true, {
+        targetingKey: 'user-123',
+        accountId: 42,
+      });
+
+      expect(result.value).toBe(true);
+      expect(result.reason).toBe('ERROR');
+      expect(result.errorCode).toBe(ErrorCode.INVALID_CONTEXT);
+      expect(result.errorMessage).toBe('accountId (accountId) must be a string, got number');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('returns PROVIDER_NOT_READY before initialize', async () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+      const uninitialized = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+      });
+
+      const result = await uninitialized.resolveBooleanEvaluation('feature-a', true, {
+        targetingKey: 'user-123',
+      });
+
+      expect(result.value).toBe(true);
+      expect(result.reason).toBe('ERROR');
+      expect(result.errorCode).toBe(ErrorCode.PROVIDER_NOT_READY);
       expect(mockFetch).not.toHaveBeenCalled();
     });
 
     it('returns default value with true default when no targetingKey', async () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+
       const result = await provider.resolveBooleanEvaluation(
         'feature-a',
         true,
@@ -162,6 +217,8 @@ describe('PendoProvider', () => {
       );
 
       expect(result.value).toBe(false);
+      expect(result.reason).toBe('VISITOR_UNKNOWN');
+      expect(result.flagMetadata).toEqual({ visitorUnknown: true });
     });
 
     it('handles 451 response (opted out)', async () => {
@@ -178,377 +235,2463 @@ describe('PendoProvider', () => {
       );
 
       expect(result.value).toBe(false);
+      expect(result.reason).toBe('VISITOR_OPTED_OUT');
+      expect(result.flagMetadata).toEqual({ visitorOptedOut: true });
     });
 
-    it('handles 429 rate limit error', async () => {
-      mockFetch.mockResolvedValue({
-        ok: false,
-        status: 429,
-        statusText: 'Too Many Requests',
-      });
+    it('carries the visitor status through non-boolean evaluations', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 451 });
 
-      const result = await provider.resolveBooleanEvaluation(
-        'feature-a',
-        false,
+      const result = await provider.resolveStringEvaluation(
+        'any-flag',
+        'fallback',
         { targetingKey: 'user-123' }
       );
 
-      expect(result.value).toBe(false);
-      expect(result.reason).toBe('ERROR');
-      expect(result.errorCode).toBe(ErrorCode.GENERAL);
-      expect(result.errorMessage).toContain('rate limit');
+      expect(result.value).toBe('fallback');
+      expect(result.reason).toBe('VISITOR_OPTED_OUT');
+      expect(result.flagMetadata).toEqual({ visitorOptedOut: true });
     });
 
-    it('handles generic API errors', async () => {
+    it('does not set flagMetadata for known visitors', async () => {
       mockFetch.mockResolvedValue({
-        ok: false,
-        status: 500,
-        statusText: 'Internal Server Error',
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: [] }),
       });
 
       const result = await provider.resolveBooleanEvaluation(
-        'feature-a',
+        'any-flag',
         false,
         { targetingKey: 'user-123' }
       );
 
-      expect(result.value).toBe(false);
-      expect(result.reason).toBe('ERROR');
-      expect(result.errorCode).toBe(ErrorCode.GENERAL);
+      expect(result.reason).toBe('DEFAULT');
+      expect(result.flagMetadata).toBeUndefined();
     });
 
-    it('handles network errors', async () => {
-      mockFetch.mockRejectedValue(new Error('Network error'));
+    it('returns PARSE_ERROR for invalid JSON', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => {
+          throw new SyntaxError('Unexpected token < in JSON');
+        },
+      });
 
       const result = await provider.resolveBooleanEvaluation(
         'feature-a',
-        true,
+        false,
         { targetingKey: 'user-123' }
       );
 
-      expect(result.value).toBe(true); // returns default
       expect(result.reason).toBe('ERROR');
-      expect(result.errorCode).toBe(ErrorCode.GENERAL);
-      expect(result.errorMessage).toBe('Network error');
-    });
-  });
-
-  describe('resolveStringEvaluation', () => {
-    beforeEach(async () => {
-      await provider.initialize();
+      expect(result.errorCode).toBe(ErrorCode.PARSE_ERROR);
+      expect(result.errorMessage).toBe('Pendo API returned invalid JSON');
     });
 
-    it('returns "on" when flag is enabled', async () => {
+    it('returns PARSE_ERROR for malformed segmentFlags', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
       mockFetch.mockResolvedValue({
         ok: true,
         status: 200,
-        json: async () => ({ segmentFlags: ['feature-a'] }),
+        json: async () => ({ segmentFlags: 'flag1,flag2' }),
       });
 
-      const result = await provider.resolveStringEvaluation(
-        'feature-a',
-        'default',
+      const result = await provider.resolveBooleanEvaluation(
+        'flag1',
+        false,
         { targetingKey: 'user-123' }
       );
 
-      expect(result.value).toBe('on');
-      expect(result.reason).toBe('TARGETING_MATCH');
+      expect(result.value).toBe(false);
+      expect(result.errorCode).toBe(ErrorCode.PARSE_ERROR);
+      expect(result.errorMessage).toBe('Pendo API returned malformed segmentFlags');
     });
 
-    it('returns default when flag is disabled', async () => {
+    it('does not retry parse errors', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
       mockFetch.mockResolvedValue({
         ok: true,
         status: 200,
-        json: async () => ({ segmentFlags: ['feature-b'] }),
+        json: async () => null,
       });
+      provider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        retry: { maxAttempts: 3, baseDelay: 0 },
+      });
+      await provider.initialize();
 
-      const result = await provider.resolveStringEvaluation(
-        'feature-a',
-        'default-value',
+      const result = await provider.resolveBooleanEvaluation(
+        'flag1',
+        false,
         { targetingKey: 'user-123' }
       );
 
-      expect(result.value).toBe('default-value');
-      expect(result.reason).toBe('DEFAULT');
-    });
-
-    it('returns default when no targetingKey', async () => {
-      const result = await provider.resolveStringEvaluation(
-        'feature-a',
-        'my-default',
-        {}
-      );
-
-      expect(result.value).toBe('my-default');
-      expect(result.reason).toBe('DEFAULT');
-    });
-  });
-
-  describe('resolveNumberEvaluation', () => {
-    beforeEach(async () => {
-      await provider.initialize();
+      expect(result.errorCode).toBe(ErrorCode.PARSE_ERROR);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
     });
 
-    it('returns 1 when flag is enabled', async () => {
+    it('handles 429 rate limit error', async () => {
       mockFetch.mockResolvedValue({
-        ok: true,
-        status: 200,
-        json: async () => ({ segmentFlags: ['feature-a'] }),
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
       });
 
-      const result = await provider.resolveNumberEvaluation(
+      const result = await provider.resolveBooleanEvaluation(
         'feature-a',
-        0,
+        false,
         { targetingKey: 'user-123' }
       );
 
-      expect(result.value).toBe(1);
-      expect(result.reason).toBe('TARGETING_MATCH');
+      expect(result.value).toBe(false);
+      expect(result.reason).toBe('ERROR');
+      expect(result.errorCode).toBe(ErrorCode.GENERAL);
+      expect(result.errorMessage).toContain('rate limit');
     });
 
-    it('returns 0 when flag is disabled', async () => {
+    it('handles generic API errors', async () => {
       mockFetch.mockResolvedValue({
-        ok: true,
-        status: 200,
-        json: async () => ({ segmentFlags: ['feature-b'] }),
+        ok: false,
+        status: 500,
+        statusText: 'Internal Server Error',
       });
 
-      const result = await provider.resolveNumberEvaluation(
+      const result = await provider.resolveBooleanEvaluation(
         'feature-a',
-        0,
+        false,
         { targetingKey: 'user-123' }
       );
 
-      expect(result.value).toBe(0);
+      expect(result.value).toBe(false);
+      expect(result.reason).toBe('ERROR');
+      expect(result.errorCode).toBe(ErrorCode.GENERAL);
     });
 
-    it('returns default when no targetingKey', async () => {
-      const result = await provider.resolveNumberEvaluation(
+    it('handles network errors', async () => {
+      mockFetch.mockRejectedValue(new Error('Network error'));
+
+      const result = await provider.resolveBooleanEvaluation(
         'feature-a',
-        42,
-        {}
+        true,
+        { targetingKey: 'user-123' }
       );
 
-      expect(result.value).toBe(42);
-      expect(result.reason).toBe('DEFAULT');
+      expect(result.value).toBe(true); // returns default
+      expect(result.reason).toBe('ERROR');
+      expect(result.errorCode).toBe(ErrorCode.GENERAL);
+      expect(result.errorMessage).toBe('Network error');
     });
   });
 
-  describe('resolveObjectEvaluation', () => {
-    beforeEach(async () => {
-      await provider.initialize();
-    });
-
-    it('returns { enabled: true } when flag is enabled', async () => {
-      mockFetch.mockResolvedValue({
-        ok: true,
-        status: 200,
-        json: async () => ({ segmentFlags: ['feature-a'] }),
-      });
-
-      const result = await provider.resolveObjectEvaluation(
-        'feature-a',
-        { enabled: false },
-        { targetingKey: 'user-123' }
-      );
+  describe('retries', () => {
+    let retryProvider: PendoProvider;
 
-      expect(result.value).toEqual({ enabled: true });
-      expect(result.reason).toBe('TARGETING_MATCH');
+    const errorResponse = (status: number, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      statusText: 'Error',
+      headers: new Headers(headers),
     });
 
-    it('returns { enabled: false } when flag is disabled', async () => {
-      mockFetch.mockResolvedValue({
-        ok: true,
-        status: 200,
-        json: async () => ({ segmentFlags: ['feature-b'] }),
-      });
+    const flagsResponse = {
+      ok: true,
+      status: 200,
+      json: async () => ({ segmentFlags: ['feature-a'] }),
+    };
 
-      const result = await provider.resolveObjectEvaluation(
-        'feature-a',
-        { enabled: false },
-        { targetingKey: 'user-123' }
-      );
+    beforeEach(async () => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'error').mockImplementation();
 
-      expect(result.value).toEqual({ enabled: false });
+      retryProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        retry: { maxAttempts: 3, baseDelay: 100, jitter: 0 },
+      });
+      await retryProvider.initialize();
     });
 
-    it('returns default when no targetingKey', async () => {
-      const result = await provider.resolveObjectEvaluation(
-        'feature-a',
-        { custom: 'value' },
-        {}
-      );
-
-      expect(result.value).toEqual({ custom: 'value' });
-      expect(result.reason).toBe('DEFAULT');
+    afterEach(async () => {
+      await retryProvider.onClose();
+      jest.useRealTimers();
     });
-  });
 
-  describe('caching', () => {
-    beforeEach(async () => {
+    it('does not retry by default', async () => {
+      mockFetch.mockResolvedValue(errorResponse(503));
       await provider.initialize();
-    });
-
-    it('caches results for same visitor/account', async () => {
-      mockFetch.mockResolvedValue({
-        ok: true,
-        status: 200,
-        json: async () => ({ segmentFlags: ['flag1'] }),
-      });
 
-      // First call
-      await provider.resolveBooleanEvaluation('flag1', false, {
+      const result = await provider.resolveBooleanEvaluation('feature-a', false, {
         targetingKey: 'user-123',
-        accountId: 'account-456',
       });
 
-      // Second call with same context
-      await provider.resolveBooleanEvaluation('flag2', false, {
+      expect(result.reason).toBe('ERROR');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries retryable statuses and network errors', async () => {
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(500))
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce(flagsResponse);
+
+      const evaluation = retryProvider.resolveBooleanEvaluation('feature-a', false, {
         targetingKey: 'user-123',
-        accountId: 'account-456',
       });
+      await jest.advanceTimersByTimeAsync(300);
+      const result = await evaluation;
 
-      // Should only have made one API call
-      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(result.value).toBe(true);
+      expect(result.reason).toBe('TARGETING_MATCH');
     });
 
-    it('makes separate calls for different visitors', async () => {
-      mockFetch.mockResolvedValue({
-        ok: true,
-        status: 200,
-        json: async () => ({ segmentFlags: ['flag1'] }),
-      });
+    it('honors Retry-After on 429', async () => {
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(429, { 'Retry-After': '2' }))
+        .mockResolvedValueOnce(flagsResponse);
 
-      await provider.resolveBooleanEvaluation('flag1', false, {
+      const evaluation = retryProvider.resolveBooleanEvaluation('feature-a', false, {
         targetingKey: 'user-123',
       });
 
-      await provider.resolveBooleanEvaluation('flag1', false, {
-        targetingKey: 'user-456',
-      });
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
 
+      expect((await evaluation).value).toBe(true);
       expect(mockFetch).toHaveBeenCalledTimes(2);
     });
 
-    it('clearCache removes cached entries', async () => {
-      mockFetch.mockResolvedValue({
-        ok: true,
-        status: 200,
-        json: async () => ({ segmentFlags: ['flag1'] }),
-      });
+    it('does not retry client errors', async () => {
+      mockFetch.mockResolvedValue(errorResponse(400));
 
-      await provider.resolveBooleanEvaluation('flag1', false, {
+      const result = await retryProvider.resolveBooleanEvaluation('feature-a', false, {
         targetingKey: 'user-123',
       });
 
-      provider.clearCache();
+      expect(result.reason).toBe('ERROR');
+      expect(result.errorMessage).toContain('400');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
 
-      await provider.resolveBooleanEvaluation('flag1', false, {
+    it('returns an error instead of retrying past the evaluation timeout', async () => {
+      const deadlineProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        retry: { maxAttempts: 3 },
+        evaluationTimeout: 1000,
+      });
+      await deadlineProvider.initialize();
+
+      mockFetch.mockResolvedValue(errorResponse(503, { 'Retry-After': '30' }));
+
+      const result = await deadlineProvider.resolveBooleanEvaluation('feature-a', false, {
+        targetingKey: 'user-123',
+      });
+
+      expect(result.reason).toBe('ERROR');
+      expect(result.errorMessage).toContain('503');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await deadlineProvider.onClose();
+    });
+  });
+
+  describe('circuit breaker', () => {
+    let breakerProvider: PendoProvider;
+
+    const serverError = { ok: false, status: 500, statusText: 'Internal Server Error' };
+    const flagsResponse = {
+      ok: true,
+      status: 200,
+      json: async () => ({ segmentFlags: ['feature-a'] }),
+    };
+
+    beforeEach(async () => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'error').mockImplementation();
+      jest.spyOn(console, 'warn').mockImplementation();
+
+      breakerProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        cacheTtl: 1000,
+        circuitBreaker: { failureThreshold: 2, cooldown: 5000 },
+      });
+      await breakerProvider.initialize();
+    });
+
+    afterEach(async () => {
+      await breakerProvider.onClose();
+      jest.useRealTimers();
+    });
+
+    const evaluate = (targetingKey: string, defaultValue = false) =>
+      breakerProvider.resolveBooleanEvaluation('feature-a', defaultValue, { targetingKey });
+
+    it('short-circuits to the default value once open', async () => {
+      mockFetch.mockResolvedValue(serverError);
+      await evaluate('user-1');
+      await evaluate('user-2');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      const result = await evaluate('user-3', true);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.value).toBe(true);
+      expect(result.reason).toBe('ERROR');
+      expect(result.errorMessage).toContain('circuit breaker is open');
+    });
+
+    it('serves cached flags while open', async () => {
+      const cachingProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        cacheTtl: 1000,
+        maxStaleOnError: 60000,
+        circuitBreaker: { failureThreshold: 2, cooldown: 5000 },
+      });
+      await cachingProvider.initialize();
+
+      mockFetch.mockResolvedValueOnce(flagsResponse);
+      await cachingProvider.resolveBooleanEvaluation('feature-a', false, { targetingKey: 'user-1' });
+      jest.advanceTimersByTime(1500);
+
+      mockFetch.mockResolvedValue(serverError);
+      await cachingProvider.resolveBooleanEvaluation('feature-a', false, { targetingKey: 'user-2' });
+      await cachingProvider.resolveBooleanEvaluation('feature-a', false, { targetingKey: 'user-3' });
+
+      const result = await cachingProvider.resolveBooleanEvaluation('feature-a', false, {
+        targetingKey: 'user-1',
+      });
+      expect(result.value).toBe(true);
+      expect(result.reason).toBe('STALE');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      await cachingProvider.onClose();
+    });
+
+    it('does not count client errors as failures', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 400, statusText: 'Bad Request' });
+      await evaluate('user-1');
+      await evaluate('user-2');
+      await evaluate('user-3');
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(breakerProvider.status).toBe(ServerProviderStatus.READY);
+    });
+
+    it('sets status to ERROR and emits Error when tripped', async () => {
+      const onError = jest.fn();
+      breakerProvider.events.addHandler(ProviderEvents.Error, onError);
+
+      mockFetch.mockResolvedValue(serverError);
+      await evaluate('user-1');
+      await evaluate('user-2');
+
+      expect(breakerProvider.status).toBe(ServerProviderStatus.ERROR);
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it('sets status to READY and emits Ready when it recovers', async () => {
+      const onReady = jest.fn();
+      breakerProvider.events.addHandler(ProviderEvents.Ready, onReady);
+
+      mockFetch.mockResolvedValue(serverError);
+      await evaluate('user-1');
+      await evaluate('user-2');
+
+      jest.advanceTimersByTime(5000);
+      mockFetch.mockResolvedValue(flagsResponse);
+      const result = await evaluate('user-3');
+
+      expect(result.value).toBe(true);
+      expect(breakerProvider.status).toBe(ServerProviderStatus.READY);
+      expect(onReady).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops retrying once the breaker opens', async () => {
+      const retryingProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        retry: { maxAttempts: 5, baseDelay: 10, jitter: 0 },
+        circuitBreaker: { failureThreshold: 2 },
+      });
+      await retryingProvider.initialize();
+      mockFetch.mockResolvedValue(serverError);
+
+      const evaluation = retryingProvider.resolveBooleanEvaluation('feature-a', false, {
+        targetingKey: 'user-1',
+      });
+      await jest.advanceTimersByTimeAsync(1000);
+      const result = await evaluation;
+
+      expect(result.reason).toBe('ERROR');
+      expect(result.errorMessage).toContain('circuit breaker is open');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      await retryingProvider.onClose();
+    });
+  });
+
+  describe('timeouts and cancellation', () => {
+    const hangingFetch = (_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => {
+          reject(new DOMException('This operation was aborted', 'AbortError'));
+        });
+      });
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'error').mockImplementation();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('aborts requests that exceed requestTimeout', async () => {
+      const timeoutProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        requestTimeout: 2000,
+      });
+      await timeoutProvider.initialize();
+      mockFetch.mockImplementation(hangingFetch);
+
+      const evaluation = timeoutProvider.resolveBooleanEvaluation('feature-a', true, {
+        targetingKey: 'user-123',
+      });
+      await jest.advanceTimersByTimeAsync(2000);
+      const result = await evaluation;
+
+      expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true);
+      expect(result.value).toBe(true);
+      expect(result.reason).toBe('ERROR');
+      expect(result.errorCode).toBe(ErrorCode.GENERAL);
+      expect(result.errorMessage).toBe('Pendo API request timed out after 2000ms');
+      await timeoutProvider.onClose();
+    });
+
+    it('retries timed out requests', async () => {
+      const timeoutProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        requestTimeout: 1000,
+        retry: { maxAttempts: 2, baseDelay: 100, jitter: 0 },
+      });
+      await timeoutProvider.initialize();
+      mockFetch.mockImplementationOnce(hangingFetch).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['feature-a'] }),
+      });
+
+      const evaluation = timeoutProvider.resolveBooleanEvaluation('feature-a', false, {
+        targetingKey: 'user-123',
+      });
+      await jest.advanceTimersByTimeAsync(1100);
+
+      expect((await evaluation).value).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      await timeoutProvider.onClose();
+    });
+
+    it('stops waiting when the context signal aborts', async () => {
+      await provider.initialize();
+      mockFetch.mockImplementation(hangingFetch);
+      const controller = new AbortController();
+
+      const evaluation = provider.resolveBooleanEvaluation('feature-a', true, {
+        targetingKey: 'user-123',
+        signal: controller.signal as unknown as EvaluationContextValue,
+      });
+      controller.abort();
+      const result = await evaluation;
+
+      expect(result.value).toBe(true);
+      expect(result.reason).toBe('ERROR');
+      expect(result.errorCode).toBe(ErrorCode.GENERAL);
+      expect(result.errorMessage).toBe('Flag evaluation was aborted');
+    });
+
+    it('does not fetch when the context signal is already aborted', async () => {
+      await provider.initialize();
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await provider.resolveBooleanEvaluation('feature-a', false, {
+        targetingKey: 'user-123',
+        signal: controller.signal as unknown as EvaluationContextValue,
+      });
+
+      expect(result.errorMessage).toBe('Flag evaluation was aborted');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('does not treat an aborted evaluation as an API failure', async () => {
+      await provider.initialize();
+      mockFetch.mockImplementation(hangingFetch);
+      const errorSpy = jest.fn();
+      provider.events.addHandler(ProviderEvents.Error, errorSpy);
+      const controller = new AbortController();
+
+      const evaluation = provider.resolveBooleanEvaluation('feature-a', true, {
+        targetingKey: 'user-123',
+        signal: controller.signal as unknown as EvaluationContextValue,
+      });
+      controller.abort();
+      await evaluation;
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(provider.status).toBe(ServerProviderStatus.READY);
+      expect(errorSpy).not.toHaveBeenCalled();
+      expect(console.error).not.toHaveBeenCalledWith(
+        '[PendoProvider] Failed to fetch segment flags',
+        expect.anything()
+      );
+    });
+
+    it('does not cancel a shared request when one caller aborts', async () => {
+      await provider.initialize();
+      let respond!: (value: unknown) => void;
+      mockFetch.mockReturnValue(new Promise((resolve) => (respond = resolve)));
+      const controller = new AbortController();
+
+      const aborted = provider.resolveBooleanEvaluation('feature-a', false, {
+        targetingKey: 'user-123',
+        signal: controller.signal as unknown as EvaluationContextValue,
+      });
+      const other = provider.resolveBooleanEvaluation('feature-a', false, {
+        targetingKey: 'user-123',
+      });
+
+      controller.abort();
+      respond({ ok: true, status: 200, json: async () => ({ segmentFlags: ['feature-a'] }) });
+
+      expect((await aborted).reason).toBe('ERROR');
+      expect((await other).value).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('resolveStringEvaluation', () => {
+    beforeEach(async () => {
+      await provider.initialize();
+    });
+
+    it('returns "on" when flag is enabled', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['feature-a'] }),
+      });
+
+      const result = await provider.resolveStringEvaluation(
+        'feature-a',
+        'default',
+        { targetingKey: 'user-123' }
+      );
+
+      expect(result.value).toBe('on');
+      expect(result.reason).toBe('TARGETING_MATCH');
+    });
+
+    it('returns default when flag is disabled', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['feature-b'] }),
+      });
+
+      const result = await provider.resolveStringEvaluation(
+        'feature-a',
+        'default-value',
+        { targetingKey: 'user-123' }
+      );
+
+      expect(result.value).toBe('default-value');
+      expect(result.reason).toBe('DEFAULT');
+    });
+
+    it('returns default when no targetingKey', async () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+
+      const result = await provider.resolveStringEvaluation(
+        'feature-a',
+        'my-default',
+        {}
+      );
+
+      expect(result.value).toBe('my-default');
+      expect(result.reason).toBe('ERROR');
+      expect(result.errorCode).toBe(ErrorCode.TARGETING_KEY_MISSING);
+    });
+  });
+
+  describe('resolveNumberEvaluation', () => {
+    beforeEach(async () => {
+      await provider.initialize();
+    });
+
+    it('returns 1 when flag is enabled', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['feature-a'] }),
+      });
+
+      const result = await provider.resolveNumberEvaluation(
+        'feature-a',
+        0,
+        { targetingKey: 'user-123' }
+      );
+
+      expect(result.value).toBe(1);
+      expect(result.reason).toBe('TARGETING_MATCH');
+    });
+
+    it('returns 0 when flag is disabled', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['feature-b'] }),
+      });
+
+      const result = await provider.resolveNumberEvaluation(
+        'feature-a',
+        0,
+        { targetingKey: 'user-123' }
+      );
+
+      expect(result.value).toBe(0);
+    });
+
+    it('returns default when no targetingKey', async () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+
+      const result = await provider.resolveNumberEvaluation(
+        'feature-a',
+        42,
+        {}
+      );
+
+      expect(result.value).toBe(42);
+      expect(result.reason).toBe('ERROR');
+      expect(result.errorCode).toBe(ErrorCode.TARGETING_KEY_MISSING);
+    });
+  });
+
+  describe('resolveObjectEvaluation', () => {
+    beforeEach(async () => {
+      await provider.initialize();
+    });
+
+    it('returns { enabled: true } when flag is enabled', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['feature-a'] }),
+      });
+
+      const result = await provider.resolveObjectEvaluation(
+        'feature-a',
+        { enabled: false },
+        { targetingKey: 'user-123' }
+      );
+
+      expect(result.value).toEqual({ enabled: true });
+      expect(result.reason).toBe('TARGETING_MATCH');
+    });
+
+    it('returns { enabled: false } when flag is disabled', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['feature-b'] }),
+      });
+
+      const result = await provider.resolveObjectEvaluation(
+        'feature-a',
+        { enabled: false },
+        { targetingKey: 'user-123' }
+      );
+
+      expect(result.value).toEqual({ enabled: false });
+    });
+
+    it('returns default when no targetingKey', async () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+
+      const result = await provider.resolveObjectEvaluation(
+        'feature-a',
+        { custom: 'value' },
+        {}
+      );
+
+      expect(result.value).toEqual({ custom: 'value' });
+      expect(result.reason).toBe('ERROR');
+      expect(result.errorCode).toBe(ErrorCode.TARGETING_KEY_MISSING);
+    });
+  });
+
+  describe('caching', () => {
+    beforeEach(async () => {
+      await provider.initialize();
+    });
+
+    it('uses separate TTLs for unknown and opted-out visitors', async () => {
+      jest.useFakeTimers();
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 202 })
+        .mockResolvedValueOnce({ ok: false, status: 451 })
+        .mockResolvedValue({
+          ok: true,
+          status: 200,
+          json: async () => ({ segmentFlags: ['flag1'] }),
+        });
+      const ttlProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        cacheTtl: 60000,
+        unknownVisitorCacheTtl: 1000,
+        optedOutVisitorCacheTtl: 10000,
+      });
+      await ttlProvider.initialize();
+
+      const evaluate = (targetingKey: string) =>
+        ttlProvider.resolveBooleanEvaluation('flag1', false, { targetingKey });
+
+      expect((await evaluate('new-visitor')).reason).toBe('VISITOR_UNKNOWN');
+      expect((await evaluate('opted-out')).reason).toBe('VISITOR_OPTED_OUT');
+
+      jest.advanceTimersByTime(1001);
+      expect((await evaluate('new-visitor')).reason).toBe('TARGETING_MATCH');
+      expect((await evaluate('opted-out')).reason).toBe('VISITOR_OPTED_OUT');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+
+      jest.advanceTimersByTime(9000);
+      expect((await evaluate('opted-out')).reason).toBe('TARGETING_MATCH');
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+
+      await ttlProvider.onClose();
+      jest.useRealTimers();
+    });
+
+    it('caches results for same visitor/account', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['flag1'] }),
+      });
+
+      // First call
+      await provider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+        accountId: 'account-456',
+      });
+
+      // Second call with same context
+      await provider.resolveBooleanEvaluation('flag2', false, {
+        targetingKey: 'user-123',
+        accountId: 'account-456',
+      });
+
+      // Should only have made one API call
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('makes separate calls for different visitors', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['flag1'] }),
+      });
+
+      await provider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+      });
+
+      await provider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-456',
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('clearCache removes cached entries', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['flag1'] }),
+      });
+
+      await provider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+      });
+
+      await provider.clearCache();
+
+      await provider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('respects cache TTL expiration', async () => {
+      const shortTtlProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        cacheTtl: 100, // 100ms TTL
+      });
+      await shortTtlProvider.initialize();
+
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['flag1'] }),
+      });
+
+      await shortTtlProvider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+      });
+
+      // Wait for TTL to expire
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      await shortTtlProvider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('request coalescing', () => {
+    beforeEach(async () => {
+      await provider.initialize();
+      jest.spyOn(console, 'error').mockImplementation();
+    });
+
+    const deferred = () => {
+      let resolve!: (value: unknown) => void;
+      let reject!: (error: Error) => void;
+      const promise = new Promise((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      return { promise, resolve, reject };
+    };
+
+    it('shares one request between concurrent evaluations for the same visitor', async () => {
+      const response = deferred();
+      mockFetch.mockReturnValue(response.promise);
+
+      const context = { targetingKey: 'user-123', accountId: 'account-456' };
+      const evaluations = Array.from({ length: 20 }, (_, i) =>
+        provider.resolveBooleanEvaluation(`flag${i % 2}`, false, context)
+      );
+
+      response.resolve({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['flag0'] }),
+      });
+      const results = await Promise.all(evaluations);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(results.filter((result) => result.value)).toHaveLength(10);
+    });
+
+    it('does not share requests between different visitors', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: [] }),
+      });
+
+      await Promise.all([
+        provider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-1' }),
+        provider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-2' }),
+        provider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-1', accountId: 'a' }),
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('propagates a failed request to every waiter', async () => {
+      const response = deferred();
+      mockFetch.mockReturnValueOnce(response.promise);
+
+      const evaluations = Array.from({ length: 5 }, () =>
+        provider.resolveBooleanEvaluation('flag1', true, { targetingKey: 'user-123' })
+      );
+
+      response.reject(new Error('Network error'));
+      const results = await Promise.all(evaluations);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      for (const result of results) {
+        expect(result.value).toBe(true);
+        expect(result.reason).toBe('ERROR');
+        expect(result.errorMessage).toBe('Network error');
+      }
+    });
+
+    it('retries after a failed request instead of reusing it', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('Network error'));
+      await provider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-123' });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['flag1'] }),
+      });
+      const result = await provider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.value).toBe(true);
+    });
+  });
+
+  describe('cache bounds', () => {
+    it('evicts least recently used visitors beyond maxCacheEntries', async () => {
+      const boundedProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        maxCacheEntries: 2,
+      });
+      await boundedProvider.initialize();
+
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['flag1'] }),
+      });
+
+      await boundedProvider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-1' });
+      await boundedProvider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-2' });
+      await boundedProvider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-3' });
+
+      // user-3 is still cached, user-1 was evicted so it's fetched again
+      await boundedProvider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-3' });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      await boundedProvider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-1' });
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+
+      await boundedProvider.onClose();
+    });
+
+    it('keeps visitors whose IDs join to the same string apart', async () => {
+      await provider.initialize();
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => ({ segmentFlags: ['flag1'] }),
+        })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ segmentFlags: [] }) });
+
+      const first = await provider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 't1:u1',
+        accountId: 'x',
+      });
+      const second = await provider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 't1',
+        accountId: 'u1:x',
+      });
+
+      expect(first.value).toBe(true);
+      expect(second.value).toBe(false);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it.each([
+      ['a custom store', { cache: new MemorySegmentFlagCache({ maxEntries: 100 }) }],
+      ['maxCacheSize', { maxCacheSize: 20000 }],
+    ])('keeps per-visitor state flat with %s for a stream of visitors', async (_, options) => {
+      const boundedProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        ...options,
+      });
+      await boundedProvider.initialize();
+
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['flag1', 'flag2'] }),
+      });
+
+      for (let i = 0; i < 5000; i++) {
+        await boundedProvider.resolveBooleanEvaluation('flag1', false, {
+          targetingKey: `visitor-${i}`,
+        });
+      }
+
+      // Every collection the provider holds, including its cache store
+      const sizes = Object.values(boundedProvider)
+        .filter(
+          (value): value is { size: number } =>
+            value instanceof Map ||
+            value instanceof LruCache ||
+            value instanceof MemorySegmentFlagCache
+        )
+        .map((value) => value.size);
+      expect(sizes.length).toBeGreaterThan(0);
+      sizes.forEach((size) => expect(size).toBeLessThanOrEqual(100));
+      await boundedProvider.onClose();
+    });
+  });
+
+  describe('cache store', () => {
+    const createStore = (): jest.Mocked<SegmentFlagCache> => ({
+      get: jest.fn().mockResolvedValue(undefined),
+      set: jest.fn().mockResolvedValue(undefined),
+      delete: jest.fn().mockResolvedValue(undefined),
+      clear: jest.fn().mockResolvedValue(undefined),
+    });
+
+    beforeEach(() => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['flag1'] }),
+      });
+    });
+
+    it('reads and writes segment flags through the configured store', async () => {
+      const store = createStore();
+      const storeProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        cacheTtl: 1000,
+        cache: store,
+      });
+      await storeProvider.initialize();
+
+      await storeProvider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+        accountId: 'account-456',
+      });
+
+      expect(store.get).toHaveBeenCalledWith('["user-123","account-456","https://example.com",null]');
+      expect(store.set).toHaveBeenCalledWith(
+        '["user-123","account-456","https://example.com",null]',
+        { flags: ['flag1'], fetchedAt: expect.any(Number), expiresAt: expect.any(Number) },
+        // Kept for another TTL so the next fetch can report changed flags
+        2000
+      );
+    });
+
+    it('uses entries from the store without fetching', async () => {
+      const store = createStore();
+      store.get.mockResolvedValue({ flags: ['shared-flag'], expiresAt: Date.now() + 60000 });
+      const storeProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        cache: store,
+      });
+      await storeProvider.initialize();
+
+      const result = await storeProvider.resolveBooleanEvaluation('shared-flag', false, {
+        targetingKey: 'user-123',
+      });
+
+      expect(result.value).toBe(true);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('treats store failures as cache misses', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      const store = createStore();
+      store.get.mockRejectedValue(new Error('connection refused'));
+      store.set.mockRejectedValue(new Error('connection refused'));
+      const storeProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        cache: store,
+      });
+      await storeProvider.initialize();
+
+      const result = await storeProvider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+      });
+
+      expect(result.value).toBe(true);
+      expect(result.reason).toBe('TARGETING_MATCH');
+    });
+
+    it('clearCache delegates to the store', async () => {
+      const store = createStore();
+      const storeProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        cache: store,
+      });
+
+      await storeProvider.clearCache();
+      expect(store.clear).toHaveBeenCalledTimes(1);
+    });
+
+    it('onClose closes the store when supported', async () => {
+      const store = { ...createStore(), close: jest.fn().mockResolvedValue(undefined) };
+      const storeProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        cache: store,
+      });
+      await storeProvider.initialize();
+
+      await storeProvider.onClose();
+      expect(store.close).toHaveBeenCalledTimes(1);
+      expect(store.clear).not.toHaveBeenCalled();
+    });
+
+    it('onClose clears the store when close is not supported', async () => {
+      const store = createStore();
+      const storeProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        cache: store,
+      });
+      await storeProvider.initialize();
+
+      await storeProvider.onClose();
+      expect(store.clear).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('stale flags', () => {
+    let staleProvider: PendoProvider;
+
+    const flagsResponse = (segmentFlags: string[]) => ({
+      ok: true,
+      status: 200,
+      json: async () => ({ segmentFlags }),
+    });
+
+    const flushPromises = () => new Promise(jest.requireActual('timers').setImmediate);
+
+    beforeEach(async () => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'error').mockImplementation();
+      jest.spyOn(console, 'warn').mockImplementation();
+
+      staleProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        cacheTtl: 1000,
+        staleTtl: 5000,
+        maxStaleOnError: 10000,
+      });
+      await staleProvider.initialize();
+    });
+
+    afterEach(async () => {
+      await staleProvider.onClose();
+      jest.useRealTimers();
+    });
+
+    it('serves expired entries as STALE while refreshing in the background', async () => {
+      mockFetch.mockResolvedValueOnce(flagsResponse(['flag1']));
+      await staleProvider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-123' });
+
+      jest.advanceTimersByTime(1500);
+
+      mockFetch.mockResolvedValueOnce(flagsResponse(['flag2']));
+      const stale = await staleProvider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+      });
+
+      expect(stale.value).toBe(true);
+      expect(stale.reason).toBe('STALE');
+      expect(stale.variant).toBe('on');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      await flushPromises();
+
+      const fresh = await staleProvider.resolveBooleanEvaluation('flag2', false, {
+        targetingKey: 'user-123',
+      });
+      expect(fresh.value).toBe(true);
+      expect(fresh.reason).toBe('TARGETING_MATCH');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('starts only one background refresh per visitor', async () => {
+      mockFetch.mockResolvedValueOnce(flagsResponse(['flag1']));
+      await staleProvider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-123' });
+
+      jest.advanceTimersByTime(1500);
+
+      mockFetch.mockReturnValueOnce(new Promise(() => {}));
+      await staleProvider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-123' });
+      await staleProvider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-123' });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('serves last known flags when the API errors within maxStaleOnError', async () => {
+      mockFetch.mockResolvedValueOnce(flagsResponse(['flag1']));
+      await staleProvider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-123' });
+
+      // Past the stale-while-revalidate window, within maxStaleOnError
+      jest.advanceTimersByTime(8000);
+
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 429, statusText: 'Too Many Requests' });
+      const result = await staleProvider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+      });
+
+      expect(result.value).toBe(true);
+      expect(result.reason).toBe('STALE');
+      expect(result.errorCode).toBeUndefined();
+    });
+
+    it('returns STALE with the default value for non-matching string flags', async () => {
+      mockFetch.mockResolvedValueOnce(flagsResponse(['flag1']));
+      await staleProvider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-123' });
+
+      jest.advanceTimersByTime(8000);
+
+      mockFetch.mockRejectedValueOnce(new Error('Network error'));
+      const result = await staleProvider.resolveStringEvaluation('flag2', 'fallback', {
+        targetingKey: 'user-123',
+      });
+
+      expect(result.value).toBe('fallback');
+      expect(result.reason).toBe('STALE');
+    });
+
+    it('returns ERROR once the entry is older than maxStaleOnError', async () => {
+      mockFetch.mockResolvedValueOnce(flagsResponse(['flag1']));
+      await staleProvider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-123' });
+
+      jest.advanceTimersByTime(12000);
+
+      mockFetch.mockRejectedValueOnce(new Error('Network error'));
+      const result = await staleProvider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+      });
+
+      expect(result.value).toBe(false);
+      expect(result.reason).toBe('ERROR');
+      expect(result.errorMessage).toBe('Network error');
+    });
+
+    it('does not serve stale flags by default', async () => {
+      const defaultProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        cacheTtl: 1000,
+      });
+      await defaultProvider.initialize();
+
+      mockFetch.mockResolvedValueOnce(flagsResponse(['flag1']));
+      await defaultProvider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-123' });
+
+      jest.advanceTimersByTime(1500);
+
+      mockFetch.mockRejectedValueOnce(new Error('Network error'));
+      const result = await defaultProvider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+      });
+
+      expect(result.reason).toBe('ERROR');
+      await defaultProvider.onClose();
+    });
+  });
+
+  describe('provider events', () => {
+    let eventProvider: PendoProvider;
+
+    const flagsResponse = (segmentFlags: string[]) => ({
+      ok: true,
+      status: 200,
+      json: async () => ({ segmentFlags }),
+    });
+    const serverError = { ok: false, status: 503, statusText: 'Service Unavailable' };
+
+    const evaluate = (targetingKey = 'user-123') =>
+      eventProvider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey,
+        accountId: 'account-456',
+      });
+
+    beforeEach(async () => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'error').mockImplementation();
+      jest.spyOn(console, 'warn').mockImplementation();
+
+      eventProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        cacheTtl: 1000,
+        maxStaleOnError: 10000,
+      });
+      await eventProvider.initialize();
+    });
+
+    afterEach(async () => {
+      await eventProvider.onClose();
+      jest.useRealTimers();
+    });
+
+    it('emits ConfigurationChanged with the flags that changed on refresh', async () => {
+      const onChanged = jest.fn();
+      eventProvider.events.addHandler(ProviderEvents.ConfigurationChanged, onChanged);
+
+      mockFetch.mockResolvedValueOnce(flagsResponse(['flag1', 'flag2']));
+      await evaluate();
+      expect(onChanged).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1500);
+      mockFetch.mockResolvedValueOnce(flagsResponse(['flag2', 'flag3']));
+      await evaluate();
+
+      expect(onChanged).toHaveBeenCalledTimes(1);
+      expect(onChanged).toHaveBeenCalledWith(
+        expect.objectContaining({
+          flagsChanged: ['flag3', 'flag1'],
+          metadata: { visitorId: 'user-123', accountId: 'account-456' },
+        })
+      );
+    });
+
+    it('emits ConfigurationChanged with default options, after the entry has expired', async () => {
+      await eventProvider.onClose();
+      eventProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        cacheTtl: 50,
+      });
+      await eventProvider.initialize();
+      const onChanged = jest.fn();
+      eventProvider.events.addHandler(ProviderEvents.ConfigurationChanged, onChanged);
+
+      mockFetch.mockResolvedValueOnce(flagsResponse(['a']));
+      await evaluate();
+      jest.advanceTimersByTime(75);
+      mockFetch.mockResolvedValueOnce(flagsResponse(['b']));
+      await evaluate();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(onChanged).toHaveBeenCalledTimes(1);
+      expect(onChanged).toHaveBeenCalledWith(expect.objectContaining({ flagsChanged: ['b', 'a'] }));
+    });
+
+    it('does not emit ConfigurationChanged when the flags are unchanged', async () => {
+      const onChanged = jest.fn();
+      eventProvider.events.addHandler(ProviderEvents.ConfigurationChanged, onChanged);
+
+      mockFetch.mockResolvedValue(flagsResponse(['flag1', 'flag2']));
+      await evaluate();
+      jest.advanceTimersByTime(1500);
+      await evaluate();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(onChanged).not.toHaveBeenCalled();
+    });
+
+    it('emits Stale when serving last known flags after API errors, then Ready', async () => {
+      const onStale = jest.fn();
+      const onReady = jest.fn();
+      eventProvider.events.addHandler(ProviderEvents.Stale, onStale);
+      eventProvider.events.addHandler(ProviderEvents.Ready, onReady);
+
+      mockFetch.mockResolvedValueOnce(flagsResponse(['flag1']));
+      await evaluate();
+
+      jest.advanceTimersByTime(1500);
+      mockFetch.mockResolvedValue(serverError);
+      await evaluate();
+      await evaluate();
+
+      expect(eventProvider.status).toBe(ServerProviderStatus.STALE);
+      expect(onStale).toHaveBeenCalledTimes(1);
+
+      mockFetch.mockResolvedValue(flagsResponse(['flag1']));
+      await evaluate();
+
+      expect(eventProvider.status).toBe(ServerProviderStatus.READY);
+      expect(onReady).toHaveBeenCalledTimes(1);
+    });
+
+    it('emits Error when evaluations fail without fallback, then Ready', async () => {
+      const onError = jest.fn();
+      const onReady = jest.fn();
+      eventProvider.events.addHandler(ProviderEvents.Error, onError);
+      eventProvider.events.addHandler(ProviderEvents.Ready, onReady);
+
+      mockFetch.mockResolvedValue(serverError);
+      await evaluate('user-1');
+      await evaluate('user-2');
+
+      expect(eventProvider.status).toBe(ServerProviderStatus.ERROR);
+      expect(onError).toHaveBeenCalledTimes(1);
+
+      mockFetch.mockResolvedValue(flagsResponse(['flag1']));
+      await evaluate('user-3');
+
+      expect(eventProvider.status).toBe(ServerProviderStatus.READY);
+      expect(onReady).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not report client errors as API failures', async () => {
+      const onError = jest.fn();
+      eventProvider.events.addHandler(ProviderEvents.Error, onError);
+
+      mockFetch.mockResolvedValue({ ok: false, status: 400, statusText: 'Bad Request' });
+      await evaluate();
+
+      expect(eventProvider.status).toBe(ServerProviderStatus.READY);
+      expect(onError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAllFlags', () => {
+    const context = { targetingKey: 'user-123' };
+
+    beforeEach(async () => {
+      jest.useFakeTimers({ now: 1700000000000 });
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['flag1', 'beta-testers'] }),
+      });
+      provider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        flagDefinitions: {
+          theme: {
+            variants: { beta: 'purple', standard: 'blue' },
+            rules: [{ segmentFlag: 'beta-testers', variant: 'beta' }],
+            defaultVariant: 'standard',
+          },
+          banner: { variants: { on: 'new' } },
+        },
+      });
+      await provider.initialize();
+    });
+
+    afterEach(async () => {
+      await provider.onClose();
+      jest.useRealTimers();
+    });
+
+    it('returns every segment flag and defined flag with resolution details', async () => {
+      const result = await provider.getAllFlags(context);
+
+      expect(result.flags).toEqual(['flag1', 'beta-testers']);
+      expect(result.details).toEqual({
+        flag1: { value: true, variant: 'on', reason: 'TARGETING_MATCH' },
+        'beta-testers': { value: true, variant: 'on', reason: 'TARGETING_MATCH' },
+        theme: { value: 'purple', variant: 'beta', reason: 'TARGETING_MATCH' },
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports where the flags came from', async () => {
+      const fetched = await provider.getAllFlags(context);
+      jest.advanceTimersByTime(100);
+      const cached = await provider.getAllFlags(context);
+
+      expect(fetched.metadata).toEqual({
+        fetchedAt: 1700000000000,
+        cacheHit: false,
+        stale: false,
+        source: 'api',
+      });
+      expect(cached.metadata).toEqual({
+        fetchedAt: 1700000000000,
+        cacheHit: true,
+        stale: false,
+        source: 'api',
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('shares the cache with flag evaluation', async () => {
+      await provider.getAllFlags(context);
+      const result = await provider.resolveStringEvaluation('theme', 'default', context);
+
+      expect(result.value).toBe('purple');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports the visitor status', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 202, json: async () => ({}) });
+
+      const result = await provider.getAllFlags(context);
+
+      expect(result.flags).toEqual([]);
+      expect(result.details).toEqual({
+        theme: {
+          value: 'blue',
+          variant: 'standard',
+          reason: 'VISITOR_UNKNOWN',
+          flagMetadata: { visitorUnknown: true },
+        },
+      });
+      expect(result.metadata.visitorStatus).toBe('unknown');
+    });
+
+    it('throws for an unusable context', async () => {
+      await expect(provider.getAllFlags({})).rejects.toThrow(
+        'No visitor ID resolved from evaluation context'
+      );
+    });
+  });
+
+  describe('getBootstrap', () => {
+    beforeEach(async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['flag1', 'flag2'] }),
+      });
+      await provider.initialize();
+    });
+
+    it('returns the visitor, account and segment flags', async () => {
+      const bootstrap = await provider.getBootstrap({
+        targetingKey: 'user-123',
+        accountId: 'account-456',
+      });
+
+      expect(bootstrap).toEqual({
+        visitorId: 'user-123',
+        accountId: 'account-456',
+        flags: ['flag1', 'flag2'],
+        fetchedAt: expect.any(Number),
+      });
+    });
+
+    it('omits the account when there is none', async () => {
+      const bootstrap = await provider.getBootstrap({ targetingKey: 'user-123' });
+
+      expect(bootstrap).not.toHaveProperty('accountId');
+    });
+
+    it('throws for an unusable context', async () => {
+      await expect(provider.getBootstrap({})).rejects.toThrow(
+        'No visitor ID resolved from evaluation context'
+      );
+    });
+  });
+
+  describe('offline mode', () => {
+    let offlineProvider: PendoProvider;
+
+    beforeEach(async () => {
+      offlineProvider = new PendoProvider({
+        localFlags: {
+          flags: {
+            default: ['flag1'],
+            visitors: { 'qa-*': ['beta-testers'] },
+            accounts: { acme: ['enterprise'] },
+          },
+        },
+        flagDefinitions: {
+          theme: {
+            variants: { beta: 'purple', standard: 'blue' },
+            rules: [{ segmentFlag: 'beta-testers', variant: 'beta' }],
+            defaultVariant: 'standard',
+          },
+        },
+      });
+      await offlineProvider.initialize();
+    });
+
+    afterEach(async () => {
+      await offlineProvider.onClose();
+    });
+
+    it('evaluates flags from the local source without calling the API', async () => {
+      const context = { targetingKey: 'qa-alice', accountId: 'acme' };
+
+      const enterprise = await offlineProvider.resolveBooleanEvaluation('enterprise', false, context);
+      const missing = await offlineProvider.resolveBooleanEvaluation('flag2', true, context);
+      const theme = await offlineProvider.resolveStringEvaluation('theme', 'default', context);
+
+      expect(offlineProvider.status).toBe(ServerProviderStatus.READY);
+      expect(enterprise).toEqual({ value: true, variant: 'on', reason: 'TARGETING_MATCH' });
+      expect(missing).toEqual({ value: false, variant: 'off', reason: 'DEFAULT' });
+      expect(theme.value).toBe('purple');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('reports the local source from getAllFlags', async () => {
+      const result = await offlineProvider.getAllFlags({ targetingKey: 'user-1' });
+
+      expect(result.flags).toEqual(['flag1']);
+      expect(result.metadata.source).toBe('local');
+    });
+
+    it('ignores page URLs, which need no defaultUrl to resolve', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      const result = await offlineProvider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-1',
+        url: '/checkout',
+      });
+
+      expect(result.value).toBe(true);
+      expect(warnSpy).not.toHaveBeenCalled();
+    });
+
+    it('still requires a visitor ID', async () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+
+      const result = await offlineProvider.resolveBooleanEvaluation('flag1', false, {});
+
+      expect(result.errorCode).toBe(ErrorCode.TARGETING_KEY_MISSING);
+    });
+
+    it('serves reloaded flags and emits ConfigurationChanged when the file changes', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'pendo-local-flags-'));
+      const path = join(dir, 'flags.json');
+      writeFileSync(path, JSON.stringify({ default: ['flag1'] }));
+      const watchingProvider = new PendoProvider({
+        localFlags: { file: localFlagsFile(path), watch: true, watchInterval: 10 },
+      });
+      await watchingProvider.initialize();
+      const changed = new Promise((resolve) =>
+        watchingProvider.events.addHandler(ProviderEvents.ConfigurationChanged, resolve)
+      );
+
+      const context = { targetingKey: 'user-1' };
+      expect((await watchingProvider.resolveBooleanEvaluation('flag2', false, context)).value).toBe(
+        false
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      writeFileSync(path, JSON.stringify({ default: ['flag1', 'flag2'] }));
+      await changed;
+
+      expect((await watchingProvider.resolveBooleanEvaluation('flag2', false, context)).value).toBe(
+        true
+      );
+      await watchingProvider.onClose();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('requires apiKey and defaultUrl only without localFlags', () => {
+      const offline: PendoProviderOptions = { localFlags: { flags: {} } };
+      // @ts-expect-error apiKey and defaultUrl are required to use the Pendo API
+      const online: PendoProviderOptions = { cacheTtl: 1000 };
+
+      expect([offline, online]).toHaveLength(2);
+    });
+
+    it('fails to initialize with invalid local flags', async () => {
+      const invalidProvider = new PendoProvider({
+        localFlags: { flags: { default: 'flag1' } as never },
+      });
+
+      await expect(invalidProvider.initialize()).rejects.toThrow(
+        'Local flags in localFlags.flags default must be a list of flag keys'
+      );
+    });
+  });
+
+  describe('track', () => {
+    let consoleWarnSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    });
+
+    it('sends track event to Pendo API', async () => {
+      const trackProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        trackEventSecret: 'test-secret',
+      });
+
+      mockFetch.mockResolvedValue({ ok: true });
+
+      trackProvider.track(
+        'button_clicked',
+        { targetingKey: 'user-123', accountId: 'account-456' },
+        { value: 42 }
+      );
+
+      // Buffered events are sent when the provider closes
+      await trackProvider.onClose();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://data.pendo.io/data/track',
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({
+            'Content-Type': 'application/json',
+            'x-pendo-track-event-secret': 'test-secret',
+          }),
+        })
+      );
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.type).toBe('track');
+      expect(body.event).toBe('button_clicked');
+      expect(body.visitorId).toBe('user-123');
+      expect(body.accountId).toBe('account-456');
+      expect(body.properties).toEqual({ value: 42 });
+    });
+
+    it('buffers track events until the flush interval', async () => {
+      jest.useFakeTimers();
+      const trackProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        trackEventSecret: 'test-secret',
+      });
+      mockFetch.mockResolvedValue({ ok: true });
+
+      trackProvider.track('event_a', { targetingKey: 'user-123' }, {});
+      trackProvider.track('event_b', { targetingKey: 'user-456' }, {});
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body).event)).toEqual([
+        'event_a',
+        'event_b',
+      ]);
+      await trackProvider.onClose();
+      jest.useRealTimers();
+    });
+
+    it('sends track events through a provided eventQueue', async () => {
+      const eventQueue = new TrackEventQueue({ trackEventSecret: 'shared-secret' });
+      const trackProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        eventQueue,
+      });
+
+      trackProvider.track('button_clicked', { targetingKey: 'user-123' }, {});
+
+      expect(eventQueue.size).toBe(1);
+      expect(consoleWarnSpy).not.toHaveBeenCalled();
+      await eventQueue.close();
+    });
+
+    it('warns when trackEventSecret is not configured', () => {
+      provider.track(
+        'button_clicked',
+        { targetingKey: 'user-123' },
+        {}
+      );
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('trackEventSecret is required')
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('warns when targetingKey is not provided', () => {
+      const trackProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        trackEventSecret: 'test-secret',
+      });
+
+      trackProvider.track('button_clicked', {}, {});
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('No visitor ID resolved')
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('page URL', () => {
+    const okResponse = {
+      ok: true,
+      status: 200,
+      json: async () => ({ segmentFlags: ['flag1'] }),
+    };
+
+    const requestedUrl = (call: number) => requestPayload(call).url;
+
+    beforeEach(async () => {
+      mockFetch.mockResolvedValue(okResponse);
+      await provider.initialize();
+    });
+
+    it('uses defaultUrl when the context has no url', async () => {
+      await provider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-123' });
+
+      expect(requestedUrl(0)).toBe('https://example.com');
+    });
+
+    it('uses the url from the context without query or hash', async () => {
+      await provider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+        url: 'https://example.com/checkout?session=abc#payment',
+      });
+
+      expect(requestedUrl(0)).toBe('https://example.com/checkout');
+    });
+
+    it('resolves relative urls against defaultUrl', async () => {
+      await provider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+        url: '/checkout',
+      });
+
+      expect(requestedUrl(0)).toBe('https://example.com/checkout');
+    });
+
+    it('reads the url from a custom attribute', async () => {
+      provider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        urlAttribute: 'pageUrl',
+      });
+      await provider.initialize();
+
+      await provider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+        url: 'https://example.com/ignored',
+        pageUrl: 'https://example.com/pricing',
+      });
+
+      expect(requestedUrl(0)).toBe('https://example.com/pricing');
+    });
+
+    it('caches flags per url', async () => {
+      const evaluate = (url: string) =>
+        provider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-123', url });
+
+      await evaluate('https://example.com/a');
+      await evaluate('https://example.com/a?ref=email');
+      await evaluate('https://example.com/b');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps query parameters not listed in stripQuery', async () => {
+      provider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        urlNormalization: { stripQuery: ['utm_source'] },
+      });
+      await provider.initialize();
+
+      await provider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+        url: 'https://example.com/?plan=pro&utm_source=ad',
+      });
+
+      expect(requestedUrl(0)).toBe('https://example.com/?plan=pro');
+    });
+
+    it('falls back to defaultUrl for invalid urls', async () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+      provider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+      });
+      await provider.initialize();
+
+      await provider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+        url: 'http://',
+      });
+
+      expect(requestedUrl(0)).toBe('https://example.com');
+    });
+  });
+
+  describe('identity resolution', () => {
+    beforeEach(() => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['flag1'] }),
+      });
+    });
+
+    it('derives visitor and account from configured attribute paths', async () => {
+      provider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        identityResolver: { visitorId: 'userId', accountId: 'tenant.id' },
+      });
+      await provider.initialize();
+
+      const result = await provider.resolveBooleanEvaluation('flag1', false, {
+        userId: 'user-123',
+        tenant: { id: 'acme' },
+      });
+
+      expect(result.value).toBe(true);
+      expect(requestPayload(0)).toMatchObject({ visitorId: 'user-123', accountId: 'acme' });
+    });
+
+    it('returns the default value when the resolver yields no visitor', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      provider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        identityResolver: () => undefined,
+      });
+      await provider.initialize();
+
+      const result = await provider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+      });
+
+      expect(result.value).toBe(false);
+      expect(result.errorCode).toBe(ErrorCode.TARGETING_KEY_MISSING);
+      expect(result.errorMessage).toBe('No visitor ID resolved from evaluation context');
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        '[PendoProvider] Flag evaluation skipped',
+        expect.objectContaining({ flagKey: 'flag1' })
+      );
+    });
+
+    it('uses the resolver for track events', async () => {
+      const eventQueue = new TrackEventQueue({ trackEventSecret: 'test-secret' });
+      const enqueue = jest.spyOn(eventQueue, 'enqueue').mockImplementation();
+      provider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        eventQueue,
+        identityResolver: (context) => ({
+          visitorId: `${context.tenant}:${context.userId}`,
+        }),
+      });
+
+      provider.track('checkout', { tenant: 'acme', userId: 'user-123' }, {});
+
+      expect(enqueue).toHaveBeenCalledWith(
+        expect.objectContaining({ visitorId: 'acme:user-123', accountId: undefined })
+      );
+    });
+
+    it('throws on an invalid mapping', () => {
+      expect(
+        () =>
+          new PendoProvider({
+            apiKey: 'test-api-key',
+            defaultUrl: 'https://example.com',
+            identityResolver: { visitorId: [] },
+          })
+      ).toThrow('identityResolver visitorId must name at least one attribute');
+    });
+  });
+
+  describe('metadata forwarding', () => {
+    beforeEach(async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['flag1'] }),
+      });
+      provider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        metadataForwarding: { accountAttributes: ['plan'] },
+      });
+      await provider.initialize();
+    });
+
+    it('does not forward metadata by default', async () => {
+      const defaultProvider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+      });
+      await defaultProvider.initialize();
+
+      await defaultProvider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+        'visitor.role': 'admin',
+      });
+
+      expect(requestPayload(0)).not.toHaveProperty('metadata');
+    });
+
+    it('forwards prefixed and allowlisted attributes', async () => {
+      await provider.resolveBooleanEvaluation('flag1', false, {
         targetingKey: 'user-123',
+        accountId: 'account-456',
+        'visitor.role': 'admin',
+        'account.seats': 25,
+        plan: 'enterprise',
+        email: 'user@example.com',
+      });
+
+      expect(requestPayload(0).metadata).toEqual({
+        visitor: { role: 'admin' },
+        account: { seats: 25, plan: 'enterprise' },
       });
+    });
+
+    it('caches flags per forwarded metadata', async () => {
+      const evaluate = (role: string, plan: string) =>
+        provider.resolveBooleanEvaluation('flag1', false, {
+          targetingKey: 'user-123',
+          'visitor.role': role,
+          plan,
+          'visitor.ignored': { nested: true },
+        });
+
+      await evaluate('admin', 'pro');
+      await evaluate('admin', 'pro');
+      await evaluate('member', 'pro');
 
       expect(mockFetch).toHaveBeenCalledTimes(2);
     });
+  });
 
-    it('respects cache TTL expiration', async () => {
-      const shortTtlProvider = new PendoProvider({
+  describe('flag definitions', () => {
+    const mockFlags = (segmentFlags: string[]) =>
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags }),
+      });
+
+    beforeEach(async () => {
+      provider = new PendoProvider({
         apiKey: 'test-api-key',
         defaultUrl: 'https://example.com',
-        cacheTtl: 100, // 100ms TTL
+        flagDefinitions: {
+          theme: { variants: { on: 'dark', off: 'light' } },
+          'page-size': {
+            variants: { large: 50, small: 10 },
+            rules: [
+              { segmentFlag: 'power-users', variant: 'large' },
+              { segmentFlag: 'mobile-users', variant: 'small' },
+            ],
+          },
+          limits: { variants: { on: { seats: 100 }, off: { seats: 5 } } },
+        },
+      });
+      await provider.initialize();
+    });
+
+    it('serves the "on" variant when the segment flag matches', async () => {
+      mockFlags(['theme']);
+
+      const result = await provider.resolveStringEvaluation('theme', 'default', {
+        targetingKey: 'user-123',
+      });
+
+      expect(result).toEqual({ value: 'dark', variant: 'on', reason: 'TARGETING_MATCH' });
+    });
+
+    it('serves the default variant when no rule matches', async () => {
+      mockFlags([]);
+
+      const result = await provider.resolveStringEvaluation('theme', 'default', {
+        targetingKey: 'user-123',
+      });
+
+      expect(result).toEqual({ value: 'light', variant: 'off', reason: 'DEFAULT' });
+    });
+
+    it('applies the first matching rule', async () => {
+      mockFlags(['mobile-users', 'power-users']);
+
+      const result = await provider.resolveNumberEvaluation('page-size', 20, {
+        targetingKey: 'user-123',
+      });
+
+      expect(result.value).toBe(50);
+      expect(result.variant).toBe('large');
+      expect(result.reason).toBe('TARGETING_MATCH');
+    });
+
+    it('returns the caller default when there is no default variant', async () => {
+      mockFlags([]);
+
+      const result = await provider.resolveNumberEvaluation('page-size', 20, {
+        targetingKey: 'user-123',
+      });
+
+      expect(result).toEqual({ value: 20, variant: 'default', reason: 'DEFAULT' });
+    });
+
+    it('serves object variants', async () => {
+      mockFlags(['limits']);
+
+      const result = await provider.resolveObjectEvaluation('limits', {}, {
+        targetingKey: 'user-123',
+      });
+
+      expect(result.value).toEqual({ seats: 100 });
+    });
+
+    it('returns TYPE_MISMATCH when the variant has another type', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      mockFlags(['theme']);
+
+      const result = await provider.resolveNumberEvaluation('theme', 0, {
+        targetingKey: 'user-123',
+      });
+
+      expect(result.value).toBe(0);
+      expect(result.reason).toBe('ERROR');
+      expect(result.errorCode).toBe(ErrorCode.TYPE_MISMATCH);
+      expect(result.errorMessage).toBe('Variant "on" of flag "theme" is not a number');
+    });
+
+    it('reports visitor status on defined flags', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 202, json: async () => ({}) });
+
+      const result = await provider.resolveStringEvaluation('theme', 'default', {
+        targetingKey: 'user-123',
       });
-      await shortTtlProvider.initialize();
 
+      expect(result.value).toBe('light');
+      expect(result.reason).toBe('VISITOR_UNKNOWN');
+      expect(result.flagMetadata).toEqual({ visitorUnknown: true });
+    });
+
+    it('leaves flags without a definition unchanged', async () => {
+      mockFlags(['other-flag']);
+
+      const result = await provider.resolveStringEvaluation('other-flag', 'default', {
+        targetingKey: 'user-123',
+      });
+
+      expect(result.value).toBe('on');
+    });
+
+    it('throws on definitions referring to undefined variants', () => {
+      expect(
+        () =>
+          new PendoProvider({
+            apiKey: 'test-api-key',
+            defaultUrl: 'https://example.com',
+            flagDefinitions: { theme: { variants: { on: 'dark' }, defaultVariant: 'light' } },
+          })
+      ).toThrow('flagDefinitions["theme"] refers to undefined variant "light"');
+    });
+  });
+
+  describe('type checking', () => {
+    beforeEach(async () => {
       mockFetch.mockResolvedValue({
         ok: true,
         status: 200,
-        json: async () => ({ segmentFlags: ['flag1'] }),
+        json: async () => ({ segmentFlags: ['feature-a', 'limits'] }),
+      });
+      provider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        typeCheck: 'strict',
+        flagDefinitions: {
+          limits: { variants: { on: { seats: 100 }, off: { seats: 5 } } },
+        },
       });
+      await provider.initialize();
+    });
 
-      await shortTtlProvider.resolveBooleanEvaluation('flag1', false, {
+    it('coerces flags without a definition in lenient mode', async () => {
+      const lenient = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+      });
+      await lenient.initialize();
+
+      const result = await lenient.resolveNumberEvaluation('feature-a', 0, {
         targetingKey: 'user-123',
       });
 
-      // Wait for TTL to expire
-      await new Promise(resolve => setTimeout(resolve, 150));
+      expect(result.value).toBe(1);
+    });
 
-      await shortTtlProvider.resolveBooleanEvaluation('flag1', false, {
+    it('returns TYPE_MISMATCH for non-boolean evaluations of flags without a definition', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      const context = { targetingKey: 'user-123' };
+
+      const results = [
+        await provider.resolveStringEvaluation('feature-a', 'default', context),
+        await provider.resolveNumberEvaluation('feature-a', 0, context),
+        await provider.resolveObjectEvaluation('feature-a', {}, context),
+      ];
+
+      for (const result of results) {
+        expect(result.reason).toBe('ERROR');
+        expect(result.errorCode).toBe(ErrorCode.TYPE_MISMATCH);
+      }
+      expect(results.map((result) => result.value)).toEqual(['default', 0, {}]);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('still resolves boolean evaluations of flags without a definition', async () => {
+      const result = await provider.resolveBooleanEvaluation('feature-a', false, {
         targetingKey: 'user-123',
       });
 
-      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.value).toBe(true);
+    });
+
+    it('serves object variants with the shape of the default value', async () => {
+      const result = await provider.resolveObjectEvaluation('limits', { seats: 0 }, {
+        targetingKey: 'user-123',
+      });
+
+      expect(result.value).toEqual({ seats: 100 });
+    });
+
+    it('returns TYPE_MISMATCH for object variants missing fields of the default value', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+
+      const result = await provider.resolveObjectEvaluation(
+        'limits',
+        { seats: 0, storageGb: 10 },
+        { targetingKey: 'user-123' }
+      );
+
+      expect(result.value).toEqual({ seats: 0, storageGb: 10 });
+      expect(result.errorCode).toBe(ErrorCode.TYPE_MISMATCH);
+      expect(result.errorMessage).toBe(
+        'Variant "on" of flag "limits" does not match the default value\'s shape'
+      );
     });
   });
 
-  describe('track', () => {
-    let consoleWarnSpy: jest.SpyInstance;
+  describe('transport', () => {
+    const okResponse = {
+      ok: true,
+      status: 200,
+      json: async () => ({ segmentFlags: ['flag1'] }),
+    };
 
-    beforeEach(() => {
-      consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    it('sends requests through a custom fetch instead of the global', async () => {
+      const customFetch = jest.fn().mockResolvedValue(okResponse);
+      provider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        fetch: customFetch,
+      });
+      await provider.initialize();
+
+      const result = await provider.resolveBooleanEvaluation('flag1', false, {
+        targetingKey: 'user-123',
+      });
+
+      expect(result.value).toBe(true);
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch).not.toHaveBeenCalled();
     });
 
-    it('sends track event to Pendo API', async () => {
-      const trackProvider = new PendoProvider({
+    it('adds static headers to segment flag requests', async () => {
+      mockFetch.mockResolvedValue(okResponse);
+      provider = new PendoProvider({
         apiKey: 'test-api-key',
         defaultUrl: 'https://example.com',
-        trackEventSecret: 'test-secret',
+        headers: { 'x-request-id': 'req-1', Accept: 'text/plain' },
       });
+      await provider.initialize();
 
-      mockFetch.mockResolvedValue({ ok: true });
+      await provider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-123' });
 
-      trackProvider.track(
-        'button_clicked',
-        { targetingKey: 'user-123', accountId: 'account-456' },
-        { value: 42 }
-      );
+      expect(mockFetch.mock.calls[0][1].headers).toEqual({
+        'x-request-id': 'req-1',
+        Accept: 'application/json',
+      });
+    });
+
+    it('calls a headers function before every attempt', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable' })
+        .mockResolvedValueOnce(okResponse);
+      let requestId = 0;
+      provider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        retry: { maxAttempts: 2, baseDelay: 0, jitter: 0 },
+        headers: async () => ({ 'x-request-id': `req-${++requestId}` }),
+      });
+      await provider.initialize();
 
-      // Allow fire-and-forget to execute
-      await new Promise(resolve => setTimeout(resolve, 10));
+      await provider.resolveBooleanEvaluation('flag1', false, { targetingKey: 'user-123' });
 
-      expect(mockFetch).toHaveBeenCalledWith(
+      expect(mockFetch.mock.calls.map((call) => call[1].headers['x-request-id'])).toEqual([
+        'req-1',
+        'req-2',
+      ]);
+    });
+
+    it('sends track events through the same transport', async () => {
+      const customFetch = jest.fn().mockResolvedValue({ ok: true });
+      provider = new PendoProvider({
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        trackEventSecret: 'test-secret',
+        fetch: customFetch,
+        headers: { 'x-request-id': 'req-1' },
+      });
+
+      provider.track('checkout', { targetingKey: 'user-123' }, {});
+      await provider.onClose();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(customFetch).toHaveBeenCalledWith(
         'https://data.pendo.io/data/track',
         expect.objectContaining({
-          method: 'POST',
           headers: expect.objectContaining({
-            'Content-Type': 'application/json',
+            'x-request-id': 'req-1',
             'x-pendo-track-event-secret': 'test-secret',
           }),
         })
       );
-
-      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
-      expect(body.type).toBe('track');
-      expect(body.event).toBe('button_clicked');
-      expect(body.visitorId).toBe('user-123');
-      expect(body.accountId).toBe('account-456');
-      expect(body.properties).toEqual({ value: 42 });
     });
+  });
 
-    it('warns when trackEventSecret is not configured', () => {
-      provider.track(
-        'button_clicked',
-        { targetingKey: 'user-123' },
-        {}
-      );
+  describe('large payloads', () => {
+    const segmentFlagEndpoint = 'https://data.pendo.io/data/segmentflag.json/test-api-key';
+    const context = { targetingKey: 'user-123', accountId: 'account-456' };
 
-      expect(consoleWarnSpy).toHaveBeenCalledWith(
-        expect.stringContaining('trackEventSecret is required')
-      );
-      expect(mockFetch).not.toHaveBeenCalled();
+    const respondWith = (status: number, body?: unknown, headers: Record<string, string> = {}) => ({
+      ok: status >= 200 && status < 300,
+      status,
+      statusText: '',
+      headers: new Headers(headers),
+      json: async () => body,
     });
 
-    it('warns when targetingKey is not provided', () => {
-      const trackProvider = new PendoProvider({
+    const createProvider = async (options: Partial<PendoProviderOptions> = {}) => {
+      const created = new PendoProvider({
         apiKey: 'test-api-key',
         defaultUrl: 'https://example.com',
-        trackEventSecret: 'test-secret',
+        ...options,
       });
+      await created.initialize();
+      return created;
+    };
 
-      trackProvider.track('button_clicked', {}, {});
+    const bodyPayload = (call: number) =>
+      decodeJzb(new URLSearchParams(mockFetch.mock.calls[call][1].body).get('jzb')!);
 
-      expect(consoleWarnSpy).toHaveBeenCalledWith(
-        expect.stringContaining('targetingKey (visitorId) is required')
-      );
-      expect(mockFetch).not.toHaveBeenCalled();
+    it('sends a GET when the URL fits within maxUrlLength', async () => {
+      mockFetch.mockResolvedValue(respondWith(200, { segmentFlags: [] }));
+      const small = await createProvider();
+
+      await small.resolveBooleanEvaluation('flag1', false, context);
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url.startsWith(`${segmentFlagEndpoint}?jzb=`)).toBe(true);
+      expect(url.length).toBeLessThanOrEqual(8192);
+      expect(init.method).toBe('GET');
+      expect(init.body).toBeUndefined();
+    });
+
+    it('sends a POST with the JZB payload in the body above maxUrlLength', async () => {
+      mockFetch.mockResolvedValue(respondWith(200, { segmentFlags: ['flag1'] }));
+      const large = await createProvider({
+        metadataForwarding: { visitorAttributes: ['bio'] },
+      });
+      // Random text barely compresses, so this payload makes the URL too long
+      let seed = 1;
+      const bio = Array.from({ length: 12000 }, () => {
+        seed = (seed * 1103515245 + 12345) % 2 ** 31;
+        return String.fromCharCode(33 + ((seed >>> 16) % 94));
+      }).join('');
+
+      const result = await large.resolveBooleanEvaluation('flag1', false, { ...context, bio });
+
+      expect(result.value).toBe(true);
+      expect(mockFetch).toHaveBeenCalledWith(segmentFlagEndpoint, {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: expect.stringMatching(/^jzb=[A-Za-z0-9_-]{8192,}$/),
+        signal: expect.any(AbortSignal),
+      });
+      expect(bodyPayload(0)).toEqual({
+        visitorId: 'user-123',
+        accountId: 'account-456',
+        url: 'https://example.com',
+        metadata: { visitor: { bio } },
+      });
+    });
+
+    it('switches at a configurable maxUrlLength', async () => {
+      mockFetch.mockResolvedValue(respondWith(200, { segmentFlags: [] }));
+      const strict = await createProvider({ maxUrlLength: 100 });
+      const unlimited = await createProvider({ maxUrlLength: Infinity });
+
+      await strict.resolveBooleanEvaluation('flag1', false, context);
+      await unlimited.resolveBooleanEvaluation('flag1', false, context);
+
+      expect(mockFetch.mock.calls[0][0]).toBe(segmentFlagEndpoint);
+      expect(mockFetch.mock.calls[0][1].method).toBe('POST');
+      expect(mockFetch.mock.calls[1][1].method).toBe('GET');
+      expect(bodyPayload(0)).toEqual(requestPayload(1));
+    });
+
+    describe.each([
+      ['GET', Infinity],
+      ['POST', 0],
+    ])('over %s', (method, maxUrlLength) => {
+      it('resolves and caches flags', async () => {
+        mockFetch.mockResolvedValue(respondWith(200, { segmentFlags: ['flag1'] }));
+        const cached = await createProvider({ maxUrlLength });
+
+        expect((await cached.resolveBooleanEvaluation('flag1', false, context)).value).toBe(true);
+        const second = await cached.resolveBooleanEvaluation('flag1', false, context);
+
+        expect(second.value).toBe(true);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(mockFetch.mock.calls[0][1].method).toBe(method);
+      });
+
+      it('handles unknown and opted-out visitors', async () => {
+        mockFetch
+          .mockResolvedValueOnce(respondWith(202))
+          .mockResolvedValueOnce(respondWith(451));
+        const statuses = await createProvider({ maxUrlLength });
+
+        const unknown = await statuses.resolveBooleanEvaluation('flag1', false, context);
+        const optedOut = await statuses.resolveBooleanEvaluation('flag1', false, {
+          targetingKey: 'user-456',
+        });
+
+        expect(unknown.reason).toBe('VISITOR_UNKNOWN');
+        expect(optedOut.reason).toBe('VISITOR_OPTED_OUT');
+      });
+
+      it('retries rate-limited requests', async () => {
+        mockFetch
+          .mockResolvedValueOnce(respondWith(429, undefined, { 'Retry-After': '0' }))
+          .mockResolvedValueOnce(respondWith(200, { segmentFlags: ['flag1'] }));
+        const retrying = await createProvider({
+          maxUrlLength,
+          retry: { maxAttempts: 2, baseDelay: 1, jitter: 0 },
+        });
+
+        const result = await retrying.resolveBooleanEvaluation('flag1', false, context);
+
+        expect(result.value).toBe(true);
+        expect(mockFetch.mock.calls.map(([, init]) => init.method)).toEqual([method, method]);
+      });
+
+      it('returns PARSE_ERROR for malformed responses', async () => {
+        mockFetch.mockResolvedValue(respondWith(200, { segmentFlags: 'flag1' }));
+        const malformed = await createProvider({ maxUrlLength });
+
+        const result = await malformed.resolveBooleanEvaluation('flag1', false, context);
+
+        expect(result.errorCode).toBe(ErrorCode.PARSE_ERROR);
+      });
     });
   });
 
@@ -584,5 +2727,46 @@ describe('PendoProvider', () => {
       const jzbParam = new URL(url).searchParams.get('jzb');
       expect(jzbParam).toMatch(/^[A-Za-z0-9_-]+$/);
     });
+
+    it('sends byte-identical requests in runtimes without Buffer', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ segmentFlags: ['flag1'] }),
+      });
+      const options = {
+        apiKey: 'test-api-key',
+        defaultUrl: 'https://example.com',
+        metadataForwarding: { visitorAttributes: ['name', 'bio'] },
+      };
+      const context = {
+        targetingKey: 'user-日本語-🚀',
+        accountId: 'account-émoji',
+        url: 'https://example.com/päth',
+        name: 'Zoë \u2028 "quoted"',
+        bio: 'x'.repeat(5000),
+      };
+
+      const withBuffer = new PendoProvider(options);
+      await withBuffer.initialize();
+      await withBuffer.resolveBooleanEvaluation('flag1', false, context);
+
+      const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'Buffer')!;
+      Object.defineProperty(globalThis, 'Buffer', { value: undefined, configurable: true });
+      try {
+        const bufferless = new PendoProvider(options);
+        await bufferless.initialize();
+        const result = await bufferless.resolveBooleanEvaluation('flag1', false, context);
+        expect(result.value).toBe(true);
+      } finally {
+        Object.defineProperty(globalThis, 'Buffer', descriptor);
+      }
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][0]).toBe(mockFetch.mock.calls[0][0]);
+      expect(requestPayload(1)).toEqual(
+        expect.objectContaining({ visitorId: 'user-日本語-🚀', accountId: 'account-émoji' })
+      );
+    });
   });
 });
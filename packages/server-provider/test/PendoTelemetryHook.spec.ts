@@ -1,5 +1,6 @@
 import type { HookContext, EvaluationDetails, FlagValue } from '@openfeature/server-sdk';
 import { PendoTelemetryHook } from '../src/PendoTelemetryHook';
+import { TrackEventQueue } from '../src/TrackEventQueue';
 
 describe('PendoTelemetryHook', () => {
   let hook: PendoTelemetryHook;
@@ -58,8 +59,7 @@ describe('PendoTelemetryHook', () => {
 
       hook.after(hookContext, evaluationDetails);
 
-      // Allow fire-and-forget to execute
-      await new Promise(resolve => setTimeout(resolve, 10));
+      await hook.flush();
 
       expect(mockFetch).toHaveBeenCalledWith(
         'https://data.pendo.io/data/track',
@@ -96,7 +96,7 @@ describe('PendoTelemetryHook', () => {
 
       hook.after(hookContext, evaluationDetails);
 
-      await new Promise(resolve => setTimeout(resolve, 10));
+      await hook.flush();
 
       const body = JSON.parse(mockFetch.mock.calls[0][1].body);
       expect(body.accountId).toBe('account-456');
@@ -124,7 +124,7 @@ describe('PendoTelemetryHook', () => {
 
       customHook.after(hookContext, evaluationDetails);
 
-      await new Promise(resolve => setTimeout(resolve, 10));
+      await customHook.flush();
 
       const body = JSON.parse(mockFetch.mock.calls[0][1].body);
       expect(body.event).toBe('custom_flag_event');
@@ -141,7 +141,7 @@ describe('PendoTelemetryHook', () => {
 
       customHook.after(hookContext, evaluationDetails);
 
-      await new Promise(resolve => setTimeout(resolve, 10));
+      await customHook.flush();
 
       expect(mockFetch).toHaveBeenCalledWith(
         'https://custom.pendo.io/data/track',
@@ -150,6 +150,95 @@ describe('PendoTelemetryHook', () => {
     });
   });
 
+  describe('event queue', () => {
+    it('throws without trackEventSecret or eventQueue', () => {
+      expect(() => new PendoTelemetryHook({})).toThrow('requires trackEventSecret or eventQueue');
+    });
+
+    it('buffers evaluations until flushed', async () => {
+      hook.after(createHookContext({ flagKey: 'flag-a' }), createEvaluationDetails());
+      hook.after(createHookContext({ flagKey: 'flag-b' }), createEvaluationDetails());
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      await hook.flush();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      const events = mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body));
+      expect(events.map((event: { properties: { flag_key: string } }) => event.properties.flag_key))
+        .toEqual(['flag-a', 'flag-b']);
+    });
+
+    it('sends events through a shared queue', async () => {
+      const eventQueue = new TrackEventQueue({ trackEventSecret: 'shared-secret' });
+      const sharedHook = new PendoTelemetryHook({ eventQueue });
+
+      sharedHook.after(createHookContext(), createEvaluationDetails());
+      expect(eventQueue.size).toBe(1);
+
+      await sharedHook.close();
+
+      expect(eventQueue.size).toBe(0);
+      expect(mockFetch.mock.calls[0][1].headers['x-pendo-track-event-secret']).toBe('shared-secret');
+    });
+  });
+
+  describe('identity resolution', () => {
+    it('attributes events using the identityResolver', async () => {
+      const mappedHook = new PendoTelemetryHook({
+        trackEventSecret: 'test-secret',
+        identityResolver: { visitorId: 'userId', accountId: 'tenant.id' },
+      });
+
+      mappedHook.after(
+        createHookContext({ context: { userId: 'user-123', tenant: { id: 'acme' } } }),
+        createEvaluationDetails()
+      );
+      mappedHook.after(
+        createHookContext({ context: { targetingKey: 'ignored' } }),
+        createEvaluationDetails()
+      );
+      await mappedHook.flush();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body).toMatchObject({ visitorId: 'user-123', accountId: 'acme' });
+    });
+
+    it('skips evaluations with a non-string visitor ID', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      hook.after(createHookContext({ context: { targetingKey: 123 as unknown as string } }), createEvaluationDetails());
+      await hook.flush();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        '[PendoTelemetryHook] Invalid identity in evaluation context, skipping tracking',
+        expect.objectContaining({ flagKey: 'test-flag' })
+      );
+    });
+  });
+
+  describe('transport', () => {
+    it('sends events through a custom fetch with extra headers', async () => {
+      const customFetch = jest.fn().mockResolvedValue({ ok: true });
+      const customHook = new PendoTelemetryHook({
+        trackEventSecret: 'test-secret',
+        fetch: customFetch,
+        headers: () => ({ 'x-request-id': 'req-1' }),
+      });
+
+      customHook.after(createHookContext(), createEvaluationDetails());
+      await customHook.flush();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(customFetch.mock.calls[0][1].headers).toEqual({
+        'x-request-id': 'req-1',
+        'Content-Type': 'application/json',
+        'x-pendo-track-event-secret': 'test-secret',
+      });
+    });
+  });
+
   describe('flagFilter', () => {
     it('tracks flag when filter returns true', async () => {
       const filterHook = new PendoTelemetryHook({
@@ -162,7 +251,7 @@ describe('PendoTelemetryHook', () => {
 
       filterHook.after(hookContext, evaluationDetails);
 
-      await new Promise(resolve => setTimeout(resolve, 10));
+      await filterHook.flush();
 
       expect(mockFetch).toHaveBeenCalled();
     });
@@ -200,7 +289,7 @@ describe('PendoTelemetryHook', () => {
 
       hook.after(hookContext, evaluationDetails);
 
-      await new Promise(resolve => setTimeout(resolve, 10));
+      await hook.flush();
 
       const body = JSON.parse(mockFetch.mock.calls[0][1].body);
       expect(body.properties.flag_value).toBe(expected);
@@ -218,12 +307,11 @@ describe('PendoTelemetryHook', () => {
       // Should not throw
       expect(() => hook.after(hookContext, evaluationDetails)).not.toThrow();
 
-      // Allow fire-and-forget to execute
-      await new Promise(resolve => setTimeout(resolve, 10));
+      await hook.flush();
 
       expect(consoleErrorSpy).toHaveBeenCalledWith(
-        '[PendoTelemetryHook] Failed to track flag evaluation:',
-        expect.any(Error)
+        '[TrackEventQueue] Failed to send track event',
+        { event: 'flag_evaluated', error: expect.any(Error) }
       );
     });
   });
@@ -235,7 +323,7 @@ describe('PendoTelemetryHook', () => {
 
       hook.after(hookContext, evaluationDetails);
 
-      await new Promise(resolve => setTimeout(resolve, 10));
+      await hook.flush();
 
       const body = JSON.parse(mockFetch.mock.calls[0][1].body);
       expect(body.properties.flag_variant).toBe('unknown');
@@ -247,7 +335,7 @@ describe('PendoTelemetryHook', () => {
 
       hook.after(hookContext, evaluationDetails);
 
-      await new Promise(resolve => setTimeout(resolve, 10));
+      await hook.flush();
 
       const body = JSON.parse(mockFetch.mock.calls[0][1].body);
       expect(body.properties.flag_reason).toBe('UNKNOWN');
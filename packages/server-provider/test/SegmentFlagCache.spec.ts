@@ -0,0 +1,77 @@
+import { MemorySegmentFlagCache } from '../src/SegmentFlagCache';
+
+describe('MemorySegmentFlagCache', () => {
+  let cache: MemorySegmentFlagCache;
+
+  afterEach(async () => {
+    await cache.close();
+    jest.useRealTimers();
+  });
+
+  it('stores and returns entries', async () => {
+    cache = new MemorySegmentFlagCache();
+    const entry = { flags: ['flag1'], expiresAt: Date.now() + 1000 };
+
+    await cache.set('user-123:', entry, 1000);
+
+    expect(await cache.get('user-123:')).toEqual(entry);
+    expect(await cache.get('user-456:')).toBeUndefined();
+  });
+
+  it('drops entries after their ttl', async () => {
+    jest.useFakeTimers();
+    cache = new MemorySegmentFlagCache({ sweepInterval: 0 });
+
+    await cache.set('user-123:', { flags: [], expiresAt: Date.now() }, 1000);
+    jest.advanceTimersByTime(1001);
+
+    expect(await cache.get('user-123:')).toBeUndefined();
+  });
+
+  it('evicts beyond maxEntries', async () => {
+    cache = new MemorySegmentFlagCache({ maxEntries: 2 });
+
+    await cache.set('a', { flags: [], expiresAt: 0 }, 1000);
+    await cache.set('b', { flags: [], expiresAt: 0 }, 1000);
+    await cache.set('c', { flags: [], expiresAt: 0 }, 1000);
+
+    expect(cache.size).toBe(2);
+    expect(await cache.get('a')).toBeUndefined();
+  });
+
+  it('periodically sweeps expired entries', async () => {
+    jest.useFakeTimers();
+    cache = new MemorySegmentFlagCache({ sweepInterval: 5000 });
+
+    await cache.set('a', { flags: [], expiresAt: 0 }, 1000);
+    await cache.set('b', { flags: [], expiresAt: 0 }, 1000);
+    expect(cache.size).toBe(2);
+
+    jest.advanceTimersByTime(5000);
+    expect(cache.size).toBe(0);
+  });
+
+  it('stops sweeping on close', async () => {
+    jest.useFakeTimers();
+    cache = new MemorySegmentFlagCache({ sweepInterval: 5000 });
+    await cache.set('a', { flags: [], expiresAt: 0 }, 1000);
+
+    await cache.close();
+
+    expect(cache.size).toBe(0);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('delete and clear remove entries', async () => {
+    cache = new MemorySegmentFlagCache();
+    await cache.set('a', { flags: [], expiresAt: 0 }, 1000);
+    await cache.set('b', { flags: [], expiresAt: 0 }, 1000);
+
+    await cache.delete('a');
+    expect(await cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(1);
+
+    await cache.clear();
+    expect(cache.size).toBe(0);
+  });
+});
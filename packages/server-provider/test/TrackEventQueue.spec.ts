@@ -0,0 +1,213 @@
+import { TrackEventQueue } from '../src/TrackEventQueue';
+import type { TrackEvent } from '../src/TrackEventQueue';
+
+describe('TrackEventQueue', () => {
+  let mockFetch: jest.Mock;
+  let originalFetch: typeof global.fetch;
+  let queue: TrackEventQueue;
+
+  const createEvent = (event = 'button_clicked'): TrackEvent => ({
+    type: 'track',
+    event,
+    visitorId: 'user-123',
+    timestamp: Date.now(),
+  });
+
+  const sentEvents = () =>
+    mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body) as TrackEvent);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+    originalFetch = global.fetch;
+    global.fetch = mockFetch;
+
+    queue = new TrackEventQueue({
+      trackEventSecret: 'test-secret',
+      maxBatchSize: 3,
+      flushInterval: 1000,
+      retry: { baseDelay: 100, jitter: 0 },
+    });
+  });
+
+  afterEach(async () => {
+    await queue.close();
+    global.fetch = originalFetch;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('buffers events until the flush interval', async () => {
+    queue.enqueue(createEvent());
+    queue.enqueue(createEvent());
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(sentEvents()).toHaveLength(2);
+    expect(queue.size).toBe(0);
+  });
+
+  it('posts each event to the track endpoint with the secret', async () => {
+    const event = createEvent();
+    queue.enqueue(event);
+    await queue.flush();
+
+    expect(mockFetch).toHaveBeenCalledWith('https://data.pendo.io/data/track', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-pendo-track-event-secret': 'test-secret',
+      },
+      body: expect.any(String),
+    });
+    // One event object per request, as the track endpoint expects
+    expect(sentEvents()).toEqual([event]);
+  });
+
+  it('flushes as soon as maxBatchSize events are buffered', async () => {
+    queue.enqueue(createEvent('a'));
+    queue.enqueue(createEvent('b'));
+    queue.enqueue(createEvent('c'));
+
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(sentEvents().map((event) => event.event)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('sends at most maxConcurrency requests at once', async () => {
+    queue = new TrackEventQueue({
+      trackEventSecret: 'test-secret',
+      maxBatchSize: 100,
+      maxConcurrency: 2,
+    });
+    const pending: (() => void)[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+    mockFetch.mockImplementation(() => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      return new Promise((resolve) =>
+        pending.push(() => {
+          inFlight--;
+          resolve({ ok: true, status: 200 });
+        })
+      );
+    });
+
+    for (let i = 0; i < 5; i++) {
+      queue.enqueue(createEvent(`event-${i}`));
+    }
+    const flushed = queue.flush();
+    while (pending.length > 0 || mockFetch.mock.calls.length < 5) {
+      await jest.advanceTimersByTimeAsync(0);
+      pending.shift()?.();
+    }
+    await flushed;
+
+    expect(mockFetch).toHaveBeenCalledTimes(5);
+    expect(maxInFlight).toBe(2);
+    expect(sentEvents().map((event) => event.event)).toEqual([
+      'event-0',
+      'event-1',
+      'event-2',
+      'event-3',
+      'event-4',
+    ]);
+  });
+
+  it('retries failed events with backoff', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable' })
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValue({ ok: true, status: 200 });
+
+    queue.enqueue(createEvent());
+    const flushed = queue.flush();
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(200);
+    await flushed;
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(queue.droppedCount).toBe(0);
+  });
+
+  it('drops and counts events once retries are exhausted', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    mockFetch.mockResolvedValue({ ok: false, status: 500, statusText: 'Internal Server Error' });
+
+    queue.enqueue(createEvent());
+    queue.enqueue(createEvent());
+    const flushed = queue.flush();
+    await jest.advanceTimersByTimeAsync(1000);
+    await flushed;
+
+    expect(mockFetch).toHaveBeenCalledTimes(6);
+    expect(queue.droppedCount).toBe(2);
+    expect(queue.size).toBe(0);
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      '[TrackEventQueue] Failed to send track event',
+      { event: 'button_clicked', error: expect.any(Error) }
+    );
+  });
+
+  it('drops the oldest events when full by default', async () => {
+    queue = new TrackEventQueue({
+      trackEventSecret: 'test-secret',
+      maxQueueSize: 2,
+      maxBatchSize: 10,
+    });
+
+    queue.enqueue(createEvent('a'));
+    queue.enqueue(createEvent('b'));
+    queue.enqueue(createEvent('c'));
+    await queue.flush();
+
+    expect(queue.droppedCount).toBe(1);
+    expect(sentEvents().map((event) => event.event)).toEqual(['b', 'c']);
+  });
+
+  it('drops incoming events when full with the "newest" policy', async () => {
+    queue = new TrackEventQueue({
+      trackEventSecret: 'test-secret',
+      maxQueueSize: 2,
+      maxBatchSize: 10,
+      dropPolicy: 'newest',
+    });
+
+    queue.enqueue(createEvent('a'));
+    queue.enqueue(createEvent('b'));
+    queue.enqueue(createEvent('c'));
+    await queue.flush();
+
+    expect(queue.droppedCount).toBe(1);
+    expect(sentEvents().map((event) => event.event)).toEqual(['a', 'b']);
+  });
+
+  it('close sends buffered events and stops the timer', async () => {
+    queue.enqueue(createEvent());
+
+    await queue.close();
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('includes events enqueued during a flush', async () => {
+    let respond!: (value: unknown) => void;
+    mockFetch.mockReturnValueOnce(new Promise((resolve) => (respond = resolve)));
+
+    queue.enqueue(createEvent('a'));
+    const flushed = queue.flush();
+    queue.enqueue(createEvent('b'));
+    respond({ ok: true, status: 200 });
+    await flushed;
+
+    expect(sentEvents().map((event) => event.event)).toEqual(['a', 'b']);
+  });
+});
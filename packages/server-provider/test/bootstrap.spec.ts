@@ -0,0 +1,34 @@
+import { BOOTSTRAP_GLOBAL, bootstrapScript, serializeBootstrap } from '../src/bootstrap';
+
+describe('serializeBootstrap', () => {
+  it('escapes characters that could break out of a script element', () => {
+    const bootstrap = {
+      visitorId: '</script><script>alert(1)</script>',
+      accountId: 'a&b',
+      flags: ['flag\u2028one', 'flag\u2029two'],
+    };
+
+    const json = serializeBootstrap(bootstrap);
+
+    expect(json).not.toMatch(/[<>&\u2028\u2029]/);
+    expect(json).toContain('\\u003c/script\\u003e');
+    expect(JSON.parse(json)).toEqual(bootstrap);
+  });
+
+  it('serializes plain payloads as JSON', () => {
+    const bootstrap = { visitorId: 'user-123', flags: ['flag1'], fetchedAt: 1700000000000 };
+
+    expect(serializeBootstrap(bootstrap)).toBe(JSON.stringify(bootstrap));
+  });
+});
+
+describe('bootstrapScript', () => {
+  it('assigns the payload to the bootstrap global', () => {
+    const bootstrap = { visitorId: 'user-<123>', flags: ['flag1'] };
+    const window: Record<string, unknown> = {};
+
+    new Function('window', bootstrapScript(bootstrap))(window);
+
+    expect(window[BOOTSTRAP_GLOBAL]).toEqual(bootstrap);
+  });
+});
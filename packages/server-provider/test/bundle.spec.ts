@@ -0,0 +1,29 @@
+import { build } from 'esbuild';
+import { join } from 'path';
+
+describe('bundling', () => {
+  const bundle = (entry: string, platform: 'browser' | 'neutral' | 'node') =>
+    build({
+      entryPoints: [join(__dirname, '..', 'src', entry)],
+      bundle: true,
+      platform,
+      format: 'esm',
+      write: false,
+      logLevel: 'silent',
+      external: ['@openfeature/server-sdk'],
+    });
+
+  it.each(['browser', 'neutral'] as const)(
+    'bundles the main entry point without Node.js built-ins for the %s platform',
+    async (platform) => {
+      const result = await bundle('index.ts', platform);
+
+      expect(result.errors).toEqual([]);
+      expect(result.outputFiles[0].text).not.toMatch(/["']fs(\/promises)?["']/);
+    }
+  );
+
+  it('keeps fs in the node entry point', async () => {
+    await expect(bundle('node/index.ts', 'browser')).rejects.toThrow('Could not resolve "fs"');
+  });
+});
@@ -0,0 +1,16 @@
+import { GeneralError } from '@openfeature/server-sdk';
+import { EvaluationAbortedError, PendoTimeoutError } from '../src/errors';
+
+describe('errors', () => {
+  it('keeps the prototype of errors extending GeneralError', () => {
+    const timeout = new PendoTimeoutError(2000);
+    const aborted = new EvaluationAbortedError();
+
+    expect(timeout).toBeInstanceOf(PendoTimeoutError);
+    expect(timeout).toBeInstanceOf(GeneralError);
+    expect(timeout.timeout).toBe(2000);
+    expect(aborted).toBeInstanceOf(EvaluationAbortedError);
+    expect(aborted).toBeInstanceOf(GeneralError);
+    expect(aborted).not.toBeInstanceOf(PendoTimeoutError);
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  isValueOfType,
+  matchesShape,
+  matchVariant,
+  validateFlagDefinitions,
+} from '../src/flagDefinitions';
+
+describe('matchVariant', () => {
+  it('serves "on" and "off" from the segment flag of the same name by default', () => {
+    const definition = { variants: { on: 'dark', off: 'light' } };
+
+    expect(matchVariant('theme', definition, ['theme'])).toEqual({
+      variant: 'on',
+      value: 'dark',
+      matched: true,
+    });
+    expect(matchVariant('theme', definition, ['other'])).toEqual({
+      variant: 'off',
+      value: 'light',
+      matched: false,
+    });
+  });
+
+  it('checks rules in order', () => {
+    const definition = {
+      variants: { premium: 'gold', beta: 'purple', standard: 'blue' },
+      rules: [
+        { segmentFlag: 'premium-customers', variant: 'premium' },
+        { segmentFlag: 'beta-testers', variant: 'beta' },
+      ],
+      defaultVariant: 'standard',
+    };
+
+    expect(matchVariant('color', definition, ['beta-testers', 'premium-customers'])).toMatchObject({
+      variant: 'premium',
+    });
+    expect(matchVariant('color', definition, ['beta-testers'])).toMatchObject({ variant: 'beta' });
+    expect(matchVariant('color', definition, [])).toEqual({
+      variant: 'standard',
+      value: 'blue',
+      matched: false,
+    });
+  });
+
+  it('returns undefined when no rule matches and there is no default variant', () => {
+    expect(matchVariant('theme', { variants: { on: 'dark' } }, [])).toBeUndefined();
+  });
+});
+
+describe('validateFlagDefinitions', () => {
+  it('accepts definitions whose rules name defined variants', () => {
+    expect(() =>
+      validateFlagDefinitions({
+        theme: { variants: { on: 'dark' } },
+        color: {
+          variants: { beta: 'purple', standard: 'blue' },
+          rules: [{ segmentFlag: 'beta-testers', variant: 'beta' }],
+          defaultVariant: 'standard',
+        },
+      })
+    ).not.toThrow();
+  });
+
+  it('rejects rules naming an undefined variant', () => {
+    expect(() =>
+      validateFlagDefinitions({
+        color: {
+          variants: { beta: 'purple' },
+          rules: [{ segmentFlag: 'premium-customers', variant: 'premium' }],
+        },
+      })
+    ).toThrow('flagDefinitions["color"] refers to undefined variant "premium"');
+  });
+
+  it('rejects an undefined default variant', () => {
+    expect(() =>
+      validateFlagDefinitions({ color: { variants: { beta: 'purple' }, defaultVariant: 'blue' } })
+    ).toThrow('flagDefinitions["color"] refers to undefined variant "blue"');
+  });
+});
+
+describe('isValueOfType', () => {
+  it('matches primitive values by type', () => {
+    expect(isValueOfType('dark', 'string')).toBe(true);
+    expect(isValueOfType(3, 'number')).toBe(true);
+    expect(isValueOfType(false, 'boolean')).toBe(true);
+    expect(isValueOfType('3', 'number')).toBe(false);
+  });
+
+  it('matches objects and arrays but not null for object flags', () => {
+    expect(isValueOfType({ limit: 10 }, 'object')).toBe(true);
+    expect(isValueOfType([1, 2], 'object')).toBe(true);
+    expect(isValueOfType(null, 'object')).toBe(false);
+  });
+});
+
+describe('matchesShape', () => {
+  it('requires every field of the default with a value of the same type', () => {
+    const defaultValue = { seats: 5, label: 'Basic' };
+
+    expect(matchesShape({ seats: 100, label: 'Pro', extra: true }, defaultValue)).toBe(true);
+    expect(matchesShape({ seats: 100 }, defaultValue)).toBe(false);
+    expect(matchesShape({ seats: '100', label: 'Pro' }, defaultValue)).toBe(false);
+  });
+
+  it('accepts any value for fields that are null in the default', () => {
+    expect(matchesShape({ plan: 'pro' }, { plan: null })).toBe(true);
+    expect(matchesShape({}, { plan: null })).toBe(true);
+  });
+
+  it('distinguishes arrays from objects', () => {
+    expect(matchesShape([1, 2], [])).toBe(true);
+    expect(matchesShape({ enabled: true }, [])).toBe(false);
+    expect(matchesShape([], {})).toBe(false);
+  });
+});
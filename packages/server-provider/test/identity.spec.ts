@@ -0,0 +1,89 @@
+import { InvalidContextError } from '@openfeature/server-sdk';
+import { createIdentityResolver } from '../src/identity';
+
+describe('createIdentityResolver', () => {
+  it('reads targetingKey and accountId by default', () => {
+    const resolve = createIdentityResolver();
+
+    expect(resolve({ targetingKey: 'user-123', accountId: 'account-456' })).toEqual({
+      visitorId: 'user-123',
+      accountId: 'account-456',
+    });
+    expect(resolve({ targetingKey: 'user-123' })).toEqual({
+      visitorId: 'user-123',
+      accountId: undefined,
+    });
+  });
+
+  it('returns undefined when there is no visitor ID', () => {
+    const resolve = createIdentityResolver();
+
+    expect(resolve({ accountId: 'account-456' })).toBeUndefined();
+    expect(resolve({ targetingKey: '' })).toBeUndefined();
+  });
+
+  it('reads nested attribute paths', () => {
+    const resolve = createIdentityResolver({ visitorId: 'userId', accountId: 'tenant.id' });
+
+    expect(resolve({ userId: 'user-123', tenant: { id: 'acme' } })).toEqual({
+      visitorId: 'user-123',
+      accountId: 'acme',
+    });
+  });
+
+  it('prefers a top-level attribute whose name contains dots', () => {
+    const resolve = createIdentityResolver({ accountId: 'tenant.id' });
+
+    expect(resolve({ targetingKey: 'user-123', 'tenant.id': 'flat', tenant: { id: 'nested' } }))
+      .toEqual({ visitorId: 'user-123', accountId: 'flat' });
+  });
+
+  it('builds composite IDs from several paths', () => {
+    const resolve = createIdentityResolver({
+      visitorId: ['tenant.id', 'userId'],
+      separator: '/',
+    });
+
+    expect(resolve({ userId: 'user-123', tenant: { id: 'acme' } })?.visitorId).toBe('acme/user-123');
+    expect(resolve({ userId: 'user-123' })).toBeUndefined();
+  });
+
+  it('treats null and empty values as missing', () => {
+    const resolve = createIdentityResolver({ visitorId: 'user' });
+
+    expect(resolve({ user: null })).toBeUndefined();
+    expect(resolve({ user: '' })).toBeUndefined();
+  });
+
+  it('throws InvalidContextError for IDs that are not strings', () => {
+    const resolve = createIdentityResolver({ visitorId: 'user', accountId: 'tenant.id' });
+
+    expect(() => resolve({ user: { id: 'user-123' } })).toThrow(InvalidContextError);
+    expect(() => resolve({ user: 'user-123', tenant: { id: 42 } })).toThrow(
+      'accountId (tenant.id) must be a string, got number'
+    );
+  });
+
+  it('validates the result of a resolver function', () => {
+    const resolve = createIdentityResolver((context) => ({
+      visitorId: context.userId as string,
+      accountId: context.tenant as string,
+    }));
+
+    expect(resolve({ userId: 'user-123' })).toEqual({
+      visitorId: 'user-123',
+      accountId: undefined,
+    });
+    expect(resolve({ tenant: 'acme' })).toBeUndefined();
+    expect(() => resolve({ userId: 123 })).toThrow('visitorId must be a string, got number');
+  });
+
+  it('throws when a mapping names no attribute', () => {
+    expect(() => createIdentityResolver({ visitorId: [] })).toThrow(
+      'identityResolver visitorId must name at least one attribute'
+    );
+    expect(() => createIdentityResolver({ accountId: '' })).toThrow(
+      'identityResolver accountId must name at least one attribute'
+    );
+  });
+});
@@ -1,5 +1,16 @@
 import pako from 'pako';
-import { encodeJzb } from '../src/jzb';
+import { JzbError } from '../src/errors';
+import { DEFAULT_MAX_JZB_LENGTH, decodeJzb, encodeJzb } from '../src/jzb';
+
+const ASCII = [...' !"#$%&\'()*+,-./0123456789:;<=>?@ABCXYZ[\\]^_`abcxyz{|}~'];
+const UNICODE = [
+  ...ASCII,
+  ...'éüß日本語\n\t\u0000\u0301\u200d\u2028\u2029\ufffd',
+  // Astral characters, encoded as surrogate pairs
+  '🚀',
+  '👍🏽',
+  '𝄞',
+];
 
 describe('encodeJzb', () => {
   it('encodes a simple payload correctly', () => {
@@ -10,7 +21,7 @@ describe('encodeJzb', () => {
     expect(encoded).not.toMatch(/[+/=]/);
 
     // Verify we can decode it back
-    const decoded = decodeJzb(encoded);
+    const decoded = referenceDecode(encoded);
     expect(decoded).toEqual(payload);
   });
 
@@ -22,7 +33,7 @@ describe('encodeJzb', () => {
     const encoded = encodeJzb(payload);
 
     expect(encoded).not.toMatch(/[+/=]/);
-    expect(decodeJzb(encoded)).toEqual(payload);
+    expect(referenceDecode(encoded)).toEqual(payload);
   });
 
   it('encodes payload with URL', () => {
@@ -34,7 +45,7 @@ describe('encodeJzb', () => {
     const encoded = encodeJzb(payload);
 
     expect(encoded).not.toMatch(/[+/=]/);
-    expect(decodeJzb(encoded)).toEqual(payload);
+    expect(referenceDecode(encoded)).toEqual(payload);
   });
 
   it('produces URL-safe Base64 output', () => {
@@ -56,7 +67,7 @@ describe('encodeJzb', () => {
     const encoded = encodeJzb(payload);
 
     expect(encoded).not.toMatch(/[+/=]/);
-    expect(decodeJzb(encoded)).toEqual(payload);
+    expect(referenceDecode(encoded)).toEqual(payload);
   });
 
   it('handles special characters in values', () => {
@@ -68,7 +79,7 @@ describe('encodeJzb', () => {
     const encoded = encodeJzb(payload);
 
     expect(encoded).not.toMatch(/[+/=]/);
-    expect(decodeJzb(encoded)).toEqual(payload);
+    expect(referenceDecode(encoded)).toEqual(payload);
   });
 
   it('handles unicode characters', () => {
@@ -79,15 +90,294 @@ describe('encodeJzb', () => {
     const encoded = encodeJzb(payload);
 
     expect(encoded).not.toMatch(/[+/=]/);
+    expect(referenceDecode(encoded)).toEqual(payload);
+  });
+});
+
+describe('encodeJzb size limit', () => {
+  it('rejects payloads longer than maxLength', () => {
+    const payload = { visitorId: 'user-123' };
+    const length = encodeJzb(payload).length;
+
+    expect(encodeJzb(payload, { maxLength: length })).toHaveLength(length);
+    expect(() => encodeJzb(payload, { maxLength: length - 1 })).toThrow(
+      new JzbError(`JZB payload is ${length} characters, over the limit of ${length - 1}`)
+    );
+  });
+
+  it('defaults to DEFAULT_MAX_JZB_LENGTH', () => {
+    const random = createRandom(7);
+    // Random text barely compresses, so this encodes to well over the limit
+    const payload = { metadata: randomString(random, DEFAULT_MAX_JZB_LENGTH, ASCII) };
+
+    expect(() => encodeJzb(payload)).toThrow(JzbError);
+  });
+});
+
+describe('decodeJzb', () => {
+  it('decodes what encodeJzb encodes', () => {
+    const payload = { visitorId: 'user-123', accountId: 'account-456', url: 'https://example.com' };
+    expect(decodeJzb(encodeJzb(payload))).toEqual(payload);
+  });
+
+  it('accepts trailing padding', () => {
+    const encoded = encodeJzb({ visitorId: 'user-1' });
+    const padded = encoded + '='.repeat((4 - (encoded.length % 4)) % 4);
+
+    expect(decodeJzb(padded)).toEqual({ visitorId: 'user-1' });
+  });
+
+  it('rejects empty payloads', () => {
+    expect(() => decodeJzb('')).toThrow(new JzbError('JZB payload is empty'));
+    expect(() => decodeJzb('==')).toThrow(new JzbError('JZB payload is empty'));
+  });
+
+  it('names characters that are not URL-safe Base64', () => {
+    const encoded = encodeJzb({ visitorId: 'user-1' });
+
+    expect(() => decodeJzb(`${encoded.slice(0, 5)}+${encoded.slice(5)}`)).toThrow(
+      'JZB payload contains "+" at position 5, which is not URL-safe Base64'
+    );
+    expect(() => decodeJzb(`${encoded} `)).toThrow('contains " " at position');
+  });
+
+  it('rejects impossible Base64 lengths', () => {
+    expect(() => decodeJzb('abcde')).toThrow(
+      new JzbError('JZB payload has an impossible Base64 length of 5; it may be truncated')
+    );
+  });
+
+  it('rejects data that is not zlib-compressed', () => {
+    const base64 = Buffer.from('{"visitorId":"user-1"}').toString('base64url');
+    expect(() => decodeJzb(base64)).toThrow(/^JZB payload is not valid zlib data/);
+  });
+
+  it('rejects truncated payloads', () => {
+    const encoded = encodeJzb({ visitorId: 'user-123', url: 'https://example.com/path' });
+    const truncated = encoded.slice(0, Math.floor(encoded.length / 4) * 4 - 4);
+
+    expect(() => decodeJzb(truncated)).toThrow(JzbError);
+  });
+
+  it('rejects compressed data that is not JSON', () => {
+    const encoded = Buffer.from(pako.deflate('not json')).toString('base64url');
+    expect(() => decodeJzb(encoded)).toThrow(/^JZB payload does not contain valid JSON/);
+  });
+
+  it.each([
+    ['array', '[1,2]'],
+    ['null', 'null'],
+    ['string', '"user-1"'],
+    ['number', '42'],
+  ])('rejects a JSON %s', (type, json) => {
+    const encoded = Buffer.from(pako.deflate(json)).toString('base64url');
+    expect(() => decodeJzb(encoded)).toThrow(
+      new JzbError(`JZB payload must be a JSON object, got ${type}`)
+    );
+  });
+
+  it('rejects payloads longer than maxLength before decompressing', () => {
+    const encoded = encodeJzb({ visitorId: 'user-123' });
+    const inflate = jest.spyOn(pako, 'inflate');
+
+    expect(() => decodeJzb(encoded, { maxLength: encoded.length - 1 })).toThrow(
+      'over the limit'
+    );
+    expect(() => decodeJzb('A'.repeat(DEFAULT_MAX_JZB_LENGTH + 1))).toThrow('over the limit');
+    expect(inflate).not.toHaveBeenCalled();
+    inflate.mockRestore();
+  });
+});
+
+describe('JZB round trip', () => {
+  const RUNS = 200;
+
+  it('preserves unicode strings, including astral and combining characters', () => {
+    const random = createRandom(1);
+    for (let i = 0; i < RUNS; i++) {
+      const payload = {
+        visitorId: randomString(random, 1 + Math.floor(random() * 40), UNICODE),
+        accountId: randomString(random, Math.floor(random() * 40), UNICODE),
+        url: `https://example.com/${randomString(random, Math.floor(random() * 60), UNICODE)}`,
+      };
+
+      const encoded = encodeJzb(payload);
+      expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decodeJzb(encoded)).toEqual(payload);
+      expect(referenceDecode(encoded)).toEqual(payload);
+    }
+  });
+
+  it('preserves arbitrary nested metadata', () => {
+    const random = createRandom(2);
+    for (let i = 0; i < RUNS; i++) {
+      const payload = {
+        visitorId: `user-${i}`,
+        metadata: {
+          visitor: randomObject(random, 3),
+          account: randomObject(random, 3),
+        },
+      };
+
+      expect(decodeJzb(encodeJzb(payload))).toEqual(payload);
+    }
+  });
+
+  it('preserves large metadata', () => {
+    const random = createRandom(3);
+    const visitor: Record<string, unknown> = {};
+    for (let i = 0; i < 2000; i++) {
+      visitor[`field_${i}_${randomString(random, 4, UNICODE)}`] = randomValue(random, 1);
+    }
+    const payload = { visitorId: 'user-123', metadata: { visitor } };
+
+    const encoded = encodeJzb(payload);
+    expect(encoded.length).toBeGreaterThan(10000);
     expect(decodeJzb(encoded)).toEqual(payload);
   });
+
+  it('round-trips every unpadded Base64 length', () => {
+    const random = createRandom(4);
+    const remainders = new Set<number>();
+
+    for (let i = 0; i < RUNS; i++) {
+      const payload = { visitorId: randomString(random, Math.floor(random() * 30), ASCII) };
+      const encoded = encodeJzb(payload);
+      remainders.add(encoded.length % 4);
+
+      expect(encoded).not.toMatch(/=/);
+      expect(decodeJzb(encoded)).toEqual(payload);
+    }
+
+    // Lengths ending in no, one or two dropped "=" characters all occur
+    expect([...remainders].sort()).toEqual([0, 2, 3]);
+  });
 });
 
+describe('JZB without Buffer', () => {
+  // Encoded with Buffer while the suite is collected, before it is hidden
+  const random = createRandom(5);
+  const payloads: Record<string, unknown>[] = [
+    {},
+    { visitorId: 'user-123', accountId: 'account-456', url: 'https://example.com/path?a=b' },
+    { visitorId: 'user-日本語', accountId: 'account-émoji-🚀' },
+    ...Array.from({ length: 50 }, (_, i) => ({
+      visitorId: randomString(random, i, UNICODE),
+      metadata: { visitor: randomObject(random, 2) },
+    })),
+  ];
+  const cases = payloads.map((payload) => ({ payload, encoded: encodeJzb(payload) }));
+  const large = { visitorId: 'user-1', metadata: randomString(random, 100000, ASCII) };
+  const largeEncoded = encodeJzb(large, { maxLength: Infinity });
+
+  let descriptor: PropertyDescriptor;
+
+  beforeEach(() => {
+    descriptor = Object.getOwnPropertyDescriptor(globalThis, 'Buffer')!;
+    Object.defineProperty(globalThis, 'Buffer', { value: undefined, configurable: true });
+  });
+
+  afterEach(() => {
+    Object.defineProperty(globalThis, 'Buffer', descriptor);
+  });
+
+  it('runs without Buffer', () => {
+    expect(typeof Buffer).toBe('undefined');
+  });
+
+  it('encodes byte-identically to Buffer', () => {
+    for (const { payload, encoded } of cases) {
+      expect(encodeJzb(payload)).toBe(encoded);
+    }
+  });
+
+  it('decodes what Buffer encoded', () => {
+    for (const { payload, encoded } of cases) {
+      expect(decodeJzb(encoded)).toEqual(payload);
+    }
+  });
+
+  it('handles payloads larger than the binary string chunk size', () => {
+    // Over two chunks of 0x8000 compressed bytes, at 4 Base64 characters per 3 bytes
+    expect(largeEncoded.length).toBeGreaterThan((2 * 0x8000 * 4) / 3);
+    expect(encodeJzb(large, { maxLength: Infinity })).toBe(largeEncoded);
+    expect(decodeJzb(largeEncoded, { maxLength: Infinity })).toEqual(large);
+  });
+
+  it('reports the same decoding errors', () => {
+    const encoded = encodeJzb({ visitorId: 'user-123', url: 'https://example.com/path' });
+
+    expect(() => decodeJzb('eyJ2aXNpdG9ySWQiOiJ1c2VyLTEifQ')).toThrow(
+      /^JZB payload is not valid zlib data/
+    );
+    expect(() => decodeJzb(encoded.slice(0, Math.floor(encoded.length / 4) * 4 - 4))).toThrow(
+      JzbError
+    );
+  });
+});
+
+type Random = () => number;
+
+/**
+ * Seeded PRNG (mulberry32), so failures are reproducible.
+ */
+function createRandom(seed: number): Random {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomString(random: Random, length: number, chars: string[]): string {
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    result += chars[Math.floor(random() * chars.length)];
+  }
+  return result;
+}
+
+function randomValue(random: Random, depth: number): unknown {
+  const kind = Math.floor(random() * (depth > 0 ? 7 : 5));
+  switch (kind) {
+    case 0:
+      return null;
+    case 1:
+      return random() < 0.5;
+    case 2:
+      return Math.floor((random() - 0.5) * Number.MAX_SAFE_INTEGER);
+    case 3:
+      return (random() - 0.5) * 1e6;
+    case 4:
+      return randomString(random, Math.floor(random() * 20), UNICODE);
+    case 5:
+      return Array.from({ length: Math.floor(random() * 5) }, () =>
+        randomValue(random, depth - 1)
+      );
+    default:
+      return randomObject(random, depth - 1);
+  }
+}
+
+function randomObject(random: Random, depth: number): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const size = Math.floor(random() * 6);
+  for (let i = 0; i < size; i++) {
+    result[randomString(random, 1 + Math.floor(random() * 10), UNICODE)] = randomValue(
+      random,
+      depth
+    );
+  }
+  return result;
+}
+
 /**
- * Helper function to decode JZB for testing.
+ * Reference decoder, independent of decodeJzb.
  * Reverses the encoding: URL-safe Base64 → Zlib decompress → JSON parse
  */
-function decodeJzb(encoded: string): Record<string, unknown> {
+function referenceDecode(encoded: string): Record<string, unknown> {
   // Restore standard base64 characters
   let base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
 
@@ -0,0 +1,110 @@
+import { createLogger } from '../src/logger';
+import type { PendoLogger } from '../src/logger';
+import { PendoApiError, PendoTimeoutError } from '../src/errors';
+
+describe('createLogger', () => {
+  let target: jest.Mocked<PendoLogger>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    target = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('logs warnings and errors by default', () => {
+    const logger = createLogger('PendoProvider', { logger: target });
+
+    logger.debug('debug message');
+    logger.info('info message');
+    logger.warn('warn message');
+    logger.error('error message');
+
+    expect(target.debug).not.toHaveBeenCalled();
+    expect(target.info).not.toHaveBeenCalled();
+    expect(target.warn).toHaveBeenCalledWith('warn message', { component: 'PendoProvider' });
+    expect(target.error).toHaveBeenCalledWith('error message', { component: 'PendoProvider' });
+  });
+
+  it('respects logLevel', () => {
+    const verbose = createLogger('PendoProvider', { logger: target, logLevel: 'debug' });
+    verbose.debug('debug message', { flagKey: 'my-flag' });
+
+    expect(target.debug).toHaveBeenCalledWith('debug message', {
+      component: 'PendoProvider',
+      flagKey: 'my-flag',
+    });
+
+    const silent = createLogger('PendoProvider', { logger: target, logLevel: 'silent' });
+    silent.error('error message');
+
+    expect(target.error).not.toHaveBeenCalled();
+  });
+
+  it('suppresses repeated warnings within the dedupe interval', () => {
+    const logger = createLogger('PendoProvider', { logger: target, logDedupeInterval: 1000 });
+
+    logger.warn('Circuit breaker opened');
+    logger.warn('Circuit breaker opened');
+    logger.warn('Circuit breaker opened');
+    logger.warn('Serving stale segment flags');
+
+    expect(target.warn).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(1000);
+    logger.warn('Circuit breaker opened');
+
+    expect(target.warn).toHaveBeenCalledTimes(3);
+    expect(target.warn).toHaveBeenLastCalledWith('Circuit breaker opened', {
+      component: 'PendoProvider',
+      suppressed: 2,
+    });
+  });
+
+  it('dedupes errors by message and the kind of error', () => {
+    const logger = createLogger('PendoProvider', { logger: target, logDedupeInterval: 1000 });
+    const unavailable = new PendoApiError('Service Unavailable', 503);
+
+    logger.error('Failed to fetch segment flags', { error: unavailable });
+    logger.error('Failed to fetch segment flags', { error: new PendoApiError('Later', 503) });
+    logger.error('Failed to fetch segment flags', { error: new PendoApiError('Forbidden', 403) });
+    logger.error('Failed to fetch segment flags', { error: new PendoTimeoutError(5000) });
+    logger.error('Failed to fetch segment flags', { error: new TypeError('fetch failed') });
+
+    expect(target.error).toHaveBeenCalledTimes(4);
+    expect(target.error).toHaveBeenNthCalledWith(1, 'Failed to fetch segment flags', {
+      component: 'PendoProvider',
+      error: unavailable,
+    });
+  });
+
+  it('does not dedupe when logDedupeInterval is 0', () => {
+    const logger = createLogger('PendoProvider', { logger: target, logDedupeInterval: 0 });
+
+    logger.error('Failed to fetch segment flags');
+    logger.error('Failed to fetch segment flags');
+
+    expect(target.error).toHaveBeenCalledTimes(2);
+  });
+
+  it('writes to the console with a component prefix by default', () => {
+    const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    const logger = createLogger('TrackEventQueue');
+
+    logger.warn('plain message');
+    logger.warn('message with fields', { count: 2 });
+
+    expect(consoleWarnSpy).toHaveBeenCalledWith('[TrackEventQueue] plain message');
+    expect(consoleWarnSpy).toHaveBeenCalledWith('[TrackEventQueue] message with fields', {
+      count: 2,
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { extractMetadata, hashMetadata } from '../src/metadata';
+
+describe('extractMetadata', () => {
+  it('maps visitor. and account. prefixed attributes', () => {
+    const metadata = extractMetadata(
+      {
+        targetingKey: 'user-123',
+        'visitor.role': 'admin',
+        'visitor.beta': true,
+        'account.seats': 25,
+        other: 'ignored',
+      },
+      {}
+    );
+
+    expect(metadata).toEqual({
+      visitor: { role: 'admin', beta: true },
+      account: { seats: 25 },
+    });
+  });
+
+  it('ignores prefixes when disabled', () => {
+    expect(extractMetadata({ 'visitor.role': 'admin' }, { prefixes: false })).toBeUndefined();
+  });
+
+  it('forwards allowlisted attributes under the same name', () => {
+    const metadata = extractMetadata(
+      { role: 'admin', plan: 'pro', email: 'user@example.com' },
+      { prefixes: false, visitorAttributes: ['role', 'missing'], accountAttributes: ['plan'] }
+    );
+
+    expect(metadata).toEqual({ visitor: { role: 'admin' }, account: { plan: 'pro' } });
+  });
+
+  it('converts dates to epoch milliseconds and skips other values', () => {
+    const metadata = extractMetadata(
+      {
+        'visitor.signedUpAt': new Date(1700000000000),
+        'visitor.tags': ['a', 'b'],
+        'visitor.address': { city: 'Raleigh' },
+        'visitor.': 'no field name',
+      },
+      {}
+    );
+
+    expect(metadata).toEqual({ visitor: { signedUpAt: 1700000000000 } });
+  });
+
+  it('returns undefined when there is nothing to forward', () => {
+    expect(extractMetadata({ targetingKey: 'user-123' }, {})).toBeUndefined();
+  });
+});
+
+describe('hashMetadata', () => {
+  it('does not depend on field order', () => {
+    expect(hashMetadata({ visitor: { a: 1, b: 'x' } }))
+      .toBe(hashMetadata({ visitor: { b: 'x', a: 1 } }));
+  });
+
+  it('differs when values or sections differ', () => {
+    const hash = hashMetadata({ visitor: { plan: 'pro' } });
+
+    expect(hashMetadata({ visitor: { plan: 'free' } })).not.toBe(hash);
+    expect(hashMetadata({ account: { plan: 'pro' } })).not.toBe(hash);
+    expect(hash).toMatch(/^[0-9a-f]{8}$/);
+  });
+});
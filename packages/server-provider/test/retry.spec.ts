@@ -0,0 +1,190 @@
+import { JzbError, PendoApiError } from '../src/errors';
+import { DEFAULT_RETRY_POLICY, parseRetryAfter, withRetry } from '../src/retry';
+import type { RetryPolicy } from '../src/retry';
+
+describe('withRetry', () => {
+  const policy: RetryPolicy = {
+    ...DEFAULT_RETRY_POLICY,
+    maxAttempts: 3,
+    baseDelay: 100,
+    maxDelay: 1000,
+    jitter: 0,
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('returns the result of a successful first attempt', async () => {
+    const operation = jest.fn().mockResolvedValue('ok');
+
+    await expect(withRetry(operation, policy)).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries with exponential backoff until success', async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValueOnce(new PendoApiError('Pendo API error: 500', 500))
+      .mockRejectedValueOnce(new PendoApiError('Pendo API error: 502', 502))
+      .mockResolvedValue('ok');
+
+    const result = withRetry(operation, policy);
+
+    await jest.advanceTimersByTimeAsync(99);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(199);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('caps the backoff at maxDelay', async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValue('ok');
+
+    const result = withRetry(operation, { ...policy, baseDelay: 800 });
+
+    await jest.advanceTimersByTimeAsync(800);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('applies jitter to the backoff delay', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    const operation = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValue('ok');
+
+    const result = withRetry(operation, { ...policy, jitter: 0.5 });
+
+    // 100ms - 100ms * 0.5 * 0.5
+    await jest.advanceTimersByTimeAsync(74);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('rethrows the last error once attempts are exhausted', async () => {
+    const operation = jest.fn().mockRejectedValue(new Error('Network error'));
+
+    const result = withRetry(operation, policy);
+    const assertion = expect(result).rejects.toThrow('Network error');
+    await jest.advanceTimersByTimeAsync(300);
+
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry non-retryable statuses', async () => {
+    const operation = jest.fn().mockRejectedValue(new PendoApiError('Pendo API error: 400', 400));
+
+    await expect(withRetry(operation, policy)).rejects.toThrow('Pendo API error: 400');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry payloads over the JZB size limit', async () => {
+    const operation = jest.fn().mockRejectedValue(new JzbError('JZB payload is too long'));
+
+    await expect(withRetry(operation, policy)).rejects.toThrow(JzbError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for the Retry-After delay instead of the backoff', async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValueOnce(new PendoApiError('Pendo API rate limit exceeded', 429, 2000))
+      .mockResolvedValue('ok');
+
+    const result = withRetry(operation, policy);
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('gives up immediately when Retry-After is longer than maxRetryAfter', async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValueOnce(new PendoApiError('Pendo API rate limit exceeded', 429, 3600000))
+      .mockResolvedValue('ok');
+
+    await expect(withRetry(operation, policy)).rejects.toThrow('rate limit exceeded');
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('waits for a Retry-After delay up to maxRetryAfter', async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValueOnce(new PendoApiError('Pendo API rate limit exceeded', 429, 3000))
+      .mockResolvedValue('ok');
+
+    const result = withRetry(operation, { ...policy, maxRetryAfter: 3000 });
+    await jest.advanceTimersByTimeAsync(3000);
+
+    await expect(result).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up early when the next attempt would pass the deadline', async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValueOnce(new PendoApiError('Pendo API rate limit exceeded', 429, 5000))
+      .mockResolvedValue('ok');
+
+    await expect(withRetry(operation, policy, Date.now() + 1000)).rejects.toThrow(
+      'rate limit exceeded'
+    );
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('parses a delay in seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(' 0 ')).toBe(0);
+  });
+
+  it('parses an HTTP date', () => {
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT')).toBe(10000);
+  });
+
+  it('clamps dates in the past to 0', () => {
+    expect(parseRetryAfter('Tue, 31 Dec 2024 23:59:00 GMT')).toBe(0);
+  });
+
+  it('returns undefined for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('')).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
@@ -0,0 +1,39 @@
+import { normalizeUrl } from '../src/url';
+
+describe('normalizeUrl', () => {
+  const base = 'https://example.com';
+
+  it('strips the query string and hash by default', () => {
+    expect(normalizeUrl('https://example.com/a/b?x=1&y=2#top', base)).toBe('https://example.com/a/b');
+  });
+
+  it('resolves relative urls against the base url', () => {
+    expect(normalizeUrl('/pricing?x=1', base)).toBe('https://example.com/pricing');
+  });
+
+  it('keeps the hash when stripHash is false', () => {
+    expect(normalizeUrl('https://example.com/#/settings', base, { stripHash: false }))
+      .toBe('https://example.com/#/settings');
+  });
+
+  it('keeps the query string when stripQuery is false', () => {
+    expect(normalizeUrl('https://example.com/?b=2&a=1', base, { stripQuery: false }))
+      .toBe('https://example.com/?b=2&a=1');
+  });
+
+  it('removes only the listed query parameters and sorts the rest', () => {
+    expect(normalizeUrl('https://example.com/?utm_source=ad&b=2&a=1', base, {
+      stripQuery: ['utm_source'],
+    })).toBe('https://example.com/?a=1&b=2');
+  });
+
+  it('drops the "?" when every listed parameter is removed', () => {
+    expect(normalizeUrl('https://example.com/?utm_source=ad', base, {
+      stripQuery: ['utm_source'],
+    })).toBe('https://example.com/');
+  });
+
+  it('returns undefined for urls that cannot be parsed', () => {
+    expect(normalizeUrl('http://', base)).toBeUndefined();
+  });
+});
@@ -3,23 +3,73 @@ import type {
   ProviderMetadata,
   ResolutionDetails,
   EvaluationContext,
+  FlagValueType,
   JsonValue,
   Hook,
   TrackingEventDetails,
 } from "@openfeature/web-sdk";
 import {
   ClientProviderStatus,
+  ErrorCode,
+  OpenFeatureError,
   OpenFeatureEventEmitter,
+  ParseError,
   ProviderEvents,
+  ProviderNotReadyError,
+  TypeMismatchError,
 } from "@openfeature/web-sdk";
+import {
+  isValueOfType,
+  matchesShape,
+  matchVariant,
+  validateFlagDefinitions,
+} from "./flagDefinitions";
+import type { FlagDefinition, FlagDefinitions, TypeCheckMode } from "./flagDefinitions";
+import { BOOTSTRAP_GLOBAL, isPendoBootstrap } from "./bootstrap";
+import type { PendoBootstrap } from "./bootstrap";
+import { createLogger } from "./logger";
+import type { LoggerOptions, PendoLogger } from "./logger";
 import "./types";
 
-export interface PendoProviderOptions {
+/**
+ * Segment flags an evaluation resolves from; `cached` when they come from
+ * the bootstrap payload rather than Pendo.
+ */
+interface SegmentFlags {
+  flags: string[];
+  cached: boolean;
+}
+
+export interface PendoProviderOptions extends LoggerOptions {
   /**
    * Timeout in milliseconds to wait for Pendo to be ready.
    * Default: 5000ms
    */
   readyTimeout?: number;
+
+  /**
+   * Multivariate flags: typed variants selected by segment flags, keyed by
+   * flag key. Flags without a definition resolve from their own segment flag.
+   * Default: {}
+   */
+  flagDefinitions?: FlagDefinitions;
+
+  /**
+   * How resolved values are checked against the requested type. In strict
+   * mode, string, number and object evaluations of flags without a definition
+   * return TYPE_MISMATCH, as do object variants that don't have the shape of
+   * the default value.
+   * Default: "lenient"
+   */
+  typeCheck?: TypeCheckMode;
+
+  /**
+   * Segment flags rendered into the page by the server provider's
+   * `getBootstrap`. Flags resolve from it with reason CACHED until Pendo has
+   * loaded its own, unless Pendo identifies a different visitor. When omitted,
+   * `window.__PENDO_FLAGS_BOOTSTRAP__` is used if set.
+   */
+  bootstrap?: PendoBootstrap;
 }
 
 /**
@@ -59,20 +109,30 @@ export class PendoProvider implements Provider {
   status: ClientProviderStatus = ClientProviderStatus.NOT_READY;
   hooks?: Hook[];
 
-  private options: Required<PendoProviderOptions>;
+  private options: Required<Omit<PendoProviderOptions, keyof LoggerOptions | "bootstrap">> &
+    Pick<PendoProviderOptions, "bootstrap">;
+  private logger: PendoLogger;
+  private bootstrap: PendoBootstrap | null = null;
   private flagChangeDetectionSetup = false;
   private flagChangeHandler: (() => void) | null = null;
 
   constructor(options: PendoProviderOptions = {}) {
     this.options = {
       readyTimeout: 5000,
+      flagDefinitions: {},
+      typeCheck: "lenient",
       ...options,
     };
+
+    this.logger = createLogger("PendoProvider", options);
+    validateFlagDefinitions(this.options.flagDefinitions);
   }
 
   /**
    * Initialize the provider.
-   * Waits for Pendo to be ready and sets up flag change detection.
+   * Waits for Pendo to be ready and sets up flag change detection. With a
+   * bootstrap payload the provider is ready immediately and switches to
+   * Pendo's flags once Pendo is ready.
    */
   async initialize(): Promise<void> {
     // Listen for pendo_ready to set up detection even if we timeout initially
@@ -84,11 +144,104 @@ export class PendoProvider implements Provider {
       );
     }
 
+    this.bootstrap = this.readBootstrap() ?? null;
+    if (this.bootstrap) {
+      this.status = ClientProviderStatus.READY;
+      void this.waitForPendo().then(() => {
+        if (this.status === ClientProviderStatus.READY) {
+          this.setupFlagChangeDetection();
+          this.switchToLiveFlags();
+        }
+      });
+      return;
+    }
+
     await this.waitForPendo();
     this.setupFlagChangeDetection();
     this.status = ClientProviderStatus.READY;
   }
 
+  /**
+   * Get the bootstrap payload from the options or the page, if there is a
+   * valid one for the visitor Pendo has identified.
+   */
+  private readBootstrap(): PendoBootstrap | undefined {
+    const bootstrap =
+      this.options.bootstrap ??
+      (typeof window !== "undefined" ? window[BOOTSTRAP_GLOBAL] : undefined);
+    if (bootstrap === undefined) {
+      return undefined;
+    }
+
+    if (!isPendoBootstrap(bootstrap)) {
+      this.logger.warn("Ignoring invalid bootstrap payload");
+      return undefined;
+    }
+
+    if (isForOtherVisitor(bootstrap)) {
+      this.logger.warn("Ignoring bootstrap payload for another visitor");
+      return undefined;
+    }
+
+    return bootstrap;
+  }
+
+  /**
+   * Get the bootstrap payload while it's being served. Once Pendo identifies
+   * a visitor other than the payload's, the payload is dropped and
+   * ConfigurationChanged emitted if Pendo's flags (or none, until Pendo loads
+   * them) differ.
+   */
+  private currentBootstrap(): PendoBootstrap | null {
+    const bootstrap = this.bootstrap;
+    if (!bootstrap || !isForOtherVisitor(bootstrap)) {
+      return bootstrap;
+    }
+
+    this.logger.warn("Ignoring bootstrap payload for another visitor");
+    this.bootstrap = null;
+
+    let flags: string[] | null = null;
+    try {
+      flags = this.getSegmentFlags();
+    } catch {
+      // Evaluations report invalid flags
+    }
+    const flagsChanged = diffFlags(bootstrap.flags, flags ?? []);
+    if (flagsChanged.length > 0) {
+      this.events.emit(ProviderEvents.ConfigurationChanged, { flagsChanged });
+    }
+    return null;
+  }
+
+  /**
+   * Stop serving bootstrapped flags once Pendo has loaded its own, emitting
+   * ConfigurationChanged if they differ.
+   */
+  private switchToLiveFlags(): void {
+    const bootstrap = this.currentBootstrap();
+    if (!bootstrap) {
+      return;
+    }
+
+    let flags: string[] | null;
+    try {
+      flags = this.getSegmentFlags();
+    } catch (error) {
+      this.logger.warn("Invalid Pendo segmentFlags, serving bootstrapped flags", { error });
+      return;
+    }
+    if (flags === null) {
+      return;
+    }
+
+    this.bootstrap = null;
+    const flagsChanged = diffFlags(bootstrap.flags, flags);
+    if (flagsChanged.length > 0) {
+      this.events.emit(ProviderEvents.ConfigurationChanged, { flagsChanged });
+    }
+  }
+
   /**
    * Wait for Pendo to be ready with timeout.
    */
@@ -108,9 +261,7 @@ export class PendoProvider implements Provider {
 
         // Check timeout
         if (Date.now() - startTime > timeout) {
-          console.warn(
-            "[PendoProvider] Pendo not ready within timeout. Flags will use default values."
-          );
+          this.logger.warn("Pendo not ready within timeout. Flags will use default values.");
           resolve();
           return;
         }
@@ -150,6 +301,10 @@ export class PendoProvider implements Provider {
 
     // Create handler and store reference for cleanup
     this.flagChangeHandler = () => {
+      if (this.bootstrap) {
+        this.switchToLiveFlags();
+        return;
+      }
       this.events.emit(ProviderEvents.ConfigurationChanged);
     };
 
@@ -171,6 +326,7 @@ export class PendoProvider implements Provider {
     }
 
     this.status = ClientProviderStatus.NOT_READY;
+    this.bootstrap = null;
     this.flagChangeHandler = null;
     this.flagChangeDetectionSetup = false;
   }
@@ -178,16 +334,27 @@ export class PendoProvider implements Provider {
   /**
    * Resolve a boolean flag value.
    *
-   * Checks if the flagKey exists in pendo.segmentFlags array.
+   * Checks if the flagKey exists in pendo.segmentFlags array, or in the
+   * bootstrapped flags until Pendo has loaded.
    */
   resolveBooleanEvaluation(
     flagKey: string,
     defaultValue: boolean,
     _context: EvaluationContext
   ): ResolutionDetails<boolean> {
-    const flags = this.getSegmentFlags();
+    const definition = this.options.flagDefinitions[flagKey];
+    if (definition) {
+      return this.resolveDefinedFlag(flagKey, defaultValue, definition, "boolean");
+    }
 
-    if (flags === null) {
+    let segmentFlags: SegmentFlags | null;
+    try {
+      segmentFlags = this.readSegmentFlags();
+    } catch (error) {
+      return this.errorResolution(flagKey, defaultValue, error);
+    }
+
+    if (segmentFlags === null) {
       return {
         value: defaultValue,
         reason: "DEFAULT",
@@ -195,11 +362,11 @@ export class PendoProvider implements Provider {
       };
     }
 
-    const enabled = flags.includes(flagKey);
+    const enabled = segmentFlags.flags.includes(flagKey);
 
     return {
       value: enabled,
-      reason: enabled ? "TARGETING_MATCH" : "DEFAULT",
+      reason: describeMatch(enabled, segmentFlags),
       variant: enabled ? "on" : "off",
     };
   }
@@ -214,12 +381,30 @@ export class PendoProvider implements Provider {
     defaultValue: string,
     context: EvaluationContext
   ): ResolutionDetails<string> {
+    const definition = this.options.flagDefinitions[flagKey];
+    if (definition) {
+      return this.resolveDefinedFlag(flagKey, defaultValue, definition, "string");
+    }
+    if (this.options.typeCheck === "strict") {
+      const error = undefinedFlagTypeMismatch(flagKey, "string");
+      return this.errorResolution(flagKey, defaultValue, error);
+    }
+
     const boolResult = this.resolveBooleanEvaluation(flagKey, false, context);
 
-    if (boolResult.reason === "DEFAULT" && !boolResult.value) {
+    if (boolResult.reason === "ERROR") {
       return {
         value: defaultValue,
-        reason: "DEFAULT",
+        reason: "ERROR",
+        errorCode: boolResult.errorCode,
+        errorMessage: boolResult.errorMessage,
+      };
+    }
+
+    if (!boolResult.value) {
+      return {
+        value: defaultValue,
+        reason: boolResult.reason,
         variant: "default",
       };
     }
@@ -241,12 +426,30 @@ export class PendoProvider implements Provider {
     defaultValue: number,
     context: EvaluationContext
   ): ResolutionDetails<number> {
+    const definition = this.options.flagDefinitions[flagKey];
+    if (definition) {
+      return this.resolveDefinedFlag(flagKey, defaultValue, definition, "number");
+    }
+    if (this.options.typeCheck === "strict") {
+      const error = undefinedFlagTypeMismatch(flagKey, "number");
+      return this.errorResolution(flagKey, defaultValue, error);
+    }
+
     const boolResult = this.resolveBooleanEvaluation(flagKey, false, context);
 
-    if (boolResult.reason === "DEFAULT" && !boolResult.value) {
+    if (boolResult.reason === "ERROR") {
       return {
         value: defaultValue,
-        reason: "DEFAULT",
+        reason: "ERROR",
+        errorCode: boolResult.errorCode,
+        errorMessage: boolResult.errorMessage,
+      };
+    }
+
+    if (!boolResult.value) {
+      return {
+        value: defaultValue,
+        reason: boolResult.reason,
         variant: "default",
       };
     }
@@ -268,12 +471,30 @@ export class PendoProvider implements Provider {
     defaultValue: T,
     context: EvaluationContext
   ): ResolutionDetails<T> {
+    const definition = this.options.flagDefinitions[flagKey];
+    if (definition) {
+      return this.resolveDefinedFlag(flagKey, defaultValue, definition, "object");
+    }
+    if (this.options.typeCheck === "strict") {
+      const error = undefinedFlagTypeMismatch(flagKey, "object");
+      return this.errorResolution(flagKey, defaultValue, error);
+    }
+
     const boolResult = this.resolveBooleanEvaluation(flagKey, false, context);
 
-    if (boolResult.reason === "DEFAULT" && !boolResult.value) {
+    if (boolResult.reason === "ERROR") {
       return {
         value: defaultValue,
-        reason: "DEFAULT",
+        reason: "ERROR",
+        errorCode: boolResult.errorCode,
+        errorMessage: boolResult.errorMessage,
+      };
+    }
+
+    if (!boolResult.value) {
+      return {
+        value: defaultValue,
+        reason: boolResult.reason,
         variant: "default",
       };
     }
@@ -285,6 +506,73 @@ export class PendoProvider implements Provider {
     };
   }
 
+  /**
+   * Resolve a flag with a flagDefinitions entry to one of its variants.
+   * Variants whose value doesn't match the requested type resolve with a
+   * TYPE_MISMATCH error.
+   */
+  private resolveDefinedFlag<T extends JsonValue>(
+    flagKey: string,
+    defaultValue: T,
+    definition: FlagDefinition,
+    type: FlagValueType
+  ): ResolutionDetails<T> {
+    try {
+      const segmentFlags = this.readSegmentFlags();
+      const match = segmentFlags
+        ? matchVariant(flagKey, definition, segmentFlags.flags)
+        : undefined;
+
+      if (!segmentFlags || !match) {
+        return {
+          value: defaultValue,
+          reason: "DEFAULT",
+          variant: "default",
+        };
+      }
+
+      if (!isValueOfType(match.value, type)) {
+        throw new TypeMismatchError(
+          `Variant "${match.variant}" of flag "${flagKey}" is not a ${type}`
+        );
+      }
+      if (
+        type === "object" &&
+        this.options.typeCheck === "strict" &&
+        !matchesShape(match.value, defaultValue)
+      ) {
+        throw new TypeMismatchError(
+          `Variant "${match.variant}" of flag "${flagKey}" does not match the default value's shape`
+        );
+      }
+
+      return {
+        value: match.value as T,
+        reason: describeMatch(match.matched, segmentFlags),
+        variant: match.variant,
+      };
+    } catch (error) {
+      return this.errorResolution(flagKey, defaultValue, error);
+    }
+  }
+
+  /**
+   * Log a failed evaluation and resolve it to the default value.
+   */
+  private errorResolution<T>(
+    flagKey: string,
+    defaultValue: T,
+    error: unknown
+  ): ResolutionDetails<T> {
+    this.logger.warn("Error evaluating flag", { flagKey, error });
+    return {
+      value: defaultValue,
+      reason: "ERROR",
+      errorCode: error instanceof OpenFeatureError ? error.code : ErrorCode.GENERAL,
+      errorMessage: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+
   /**
    * Track a custom event in Pendo.
    *
@@ -296,7 +584,7 @@ export class PendoProvider implements Provider {
     trackingEventDetails: TrackingEventDetails
   ): void {
     if (typeof window === "undefined" || !window.pendo?.track) {
-      console.warn("[PendoProvider] Pendo Web SDK not available for tracking");
+      this.logger.warn("Pendo Web SDK not available for tracking");
       return;
     }
 
@@ -311,19 +599,97 @@ export class PendoProvider implements Provider {
     window.pendo.track(trackingEventName, properties);
   }
 
+  /**
+   * Get the segment flags for an evaluation: the bootstrapped flags until
+   * Pendo has loaded, then Pendo's. Returns null if there are none yet.
+   *
+   * @throws ProviderNotReadyError if the provider hasn't been initialized
+   * @throws ParseError if Pendo holds something other than a list of flags
+   */
+  private readSegmentFlags(): SegmentFlags | null {
+    if (this.status !== ClientProviderStatus.READY) {
+      throw new ProviderNotReadyError("Pendo provider is not initialized");
+    }
+
+    const bootstrap = this.currentBootstrap();
+    if (bootstrap) {
+      return { flags: bootstrap.flags, cached: true };
+    }
+
+    const flags = this.getSegmentFlags();
+    return flags === null ? null : { flags, cached: false };
+  }
+
   /**
    * Get the segment flags array from Pendo.
    * Returns null if Pendo is not available or flags haven't been loaded.
+   *
+   * @throws ParseError if Pendo holds something other than a list of flags
    */
   private getSegmentFlags(): string[] | null {
     if (typeof window === "undefined" || !window.pendo) {
       return null;
     }
 
-    const flags = window.pendo.segmentFlags;
+    const flags: unknown = window.pendo.segmentFlags;
 
     // Return null if flags haven't been loaded yet (undefined)
     // Return the array (even if empty) if flags have been loaded
-    return flags === undefined ? null : flags;
+    if (flags === undefined || flags === null) {
+      return null;
+    }
+
+    if (!Array.isArray(flags) || !flags.every((flag) => typeof flag === "string")) {
+      throw new ParseError("Pendo segmentFlags is not a list of flag keys");
+    }
+
+    return flags;
   }
 }
+
+/**
+ * Error for a non-boolean evaluation of a flag without a definition in strict
+ * type checking.
+ */
+function undefinedFlagTypeMismatch(flagKey: string, type: FlagValueType): TypeMismatchError {
+  return new TypeMismatchError(
+    `Flag "${flagKey}" has no flagDefinitions entry and can only be evaluated as a boolean, ` +
+      `not a ${type}`
+  );
+}
+
+/**
+ * Whether Pendo has identified a visitor other than the one a bootstrap
+ * payload was rendered for. Anonymous visitors aren't compared, as Pendo
+ * assigns them an ID of its own until the visitor is identified.
+ */
+function isForOtherVisitor(bootstrap: PendoBootstrap): boolean {
+  const pendo = typeof window !== "undefined" ? window.pendo : undefined;
+  const visitorId = pendo?.getVisitorId?.();
+  if (typeof visitorId !== "string" || !visitorId || pendo?.isAnonymousVisitor?.(visitorId)) {
+    return false;
+  }
+  return visitorId !== bootstrap.visitorId;
+}
+
+/**
+ * Resolution reason for a flag that did or didn't match.
+ */
+function describeMatch(matched: boolean, segmentFlags: SegmentFlags): string {
+  if (segmentFlags.cached) {
+    return "CACHED";
+  }
+  return matched ? "TARGETING_MATCH" : "DEFAULT";
+}
+
+/**
+ * Flag keys added or removed between two flag sets.
+ */
+function diffFlags(previous: string[], current: string[]): string[] {
+  const before = new Set(previous);
+  const after = new Set(current);
+  return [
+    ...current.filter((flag) => !before.has(flag)),
+    ...previous.filter((flag) => !after.has(flag)),
+  ];
+}
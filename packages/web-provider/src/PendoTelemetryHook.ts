@@ -4,9 +4,11 @@ import type {
   EvaluationDetails,
   FlagValue,
 } from "@openfeature/web-sdk";
+import { createLogger } from "./logger";
+import type { LoggerOptions, PendoLogger } from "./logger";
 import "./types";
 
-export interface PendoTelemetryHookOptions {
+export interface PendoTelemetryHookOptions extends LoggerOptions {
   /**
    * Event name for flag evaluation tracking.
    * Default: "flag_evaluated"
@@ -42,15 +44,20 @@ export interface PendoTelemetryHookOptions {
  * ```
  */
 export class PendoTelemetryHook implements Hook {
-  private options: Required<Omit<PendoTelemetryHookOptions, "flagFilter">> & {
+  private options: Required<
+    Omit<PendoTelemetryHookOptions, "flagFilter" | keyof LoggerOptions>
+  > & {
     flagFilter?: (flagKey: string) => boolean;
   };
+  private logger: PendoLogger;
 
   constructor(options: PendoTelemetryHookOptions = {}) {
     this.options = {
       eventName: "flag_evaluated",
       ...options,
     };
+
+    this.logger = createLogger("PendoTelemetryHook", options);
   }
 
   /**
@@ -70,6 +77,9 @@ export class PendoTelemetryHook implements Hook {
 
     // Check if Pendo Web SDK is available
     if (typeof window === "undefined" || !window.pendo?.track) {
+      this.logger.debug("Pendo Web SDK not available, skipping flag evaluation tracking", {
+        flagKey,
+      });
       return;
     }
 
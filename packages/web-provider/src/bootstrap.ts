@@ -0,0 +1,45 @@
+/**
+ * Global a bootstrap payload is read from when none is passed to the
+ * provider. The server provider's `bootstrapScript` assigns it.
+ */
+export const BOOTSTRAP_GLOBAL = "__PENDO_FLAGS_BOOTSTRAP__";
+
+/**
+ * Segment flags for the visitor, rendered into the page by the server
+ * provider's `getBootstrap` so flags resolve before the Pendo Web SDK loads.
+ */
+export interface PendoBootstrap {
+  /**
+   * Visitor the flags were fetched for. The payload isn't served once Pendo
+   * identifies a different visitor.
+   */
+  visitorId: string;
+  accountId?: string;
+
+  /**
+   * Segment flag keys the visitor matched.
+   */
+  flags: string[];
+
+  /**
+   * Epoch milliseconds at which the flags were fetched.
+   */
+  fetchedAt?: number;
+}
+
+/**
+ * Whether a value is a usable bootstrap payload. Payloads read from the page
+ * aren't type checked, so they're validated before use.
+ */
+export function isPendoBootstrap(value: unknown): value is PendoBootstrap {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const bootstrap = value as Partial<PendoBootstrap>;
+  return (
+    typeof bootstrap.visitorId === "string" &&
+    Array.isArray(bootstrap.flags) &&
+    bootstrap.flags.every((flag) => typeof flag === "string")
+  );
+}
@@ -0,0 +1,179 @@
+import type { FlagValueType, JsonValue } from "@openfeature/web-sdk";
+
+// Shared by both providers: packages/server-provider/src/flagDefinitions.ts is the
+// source and packages/web-provider/src/flagDefinitions.ts a copy that differs only
+// in the OpenFeature SDK it imports from. Change both;
+// packages/web-provider/test/sharedSources.spec.ts fails when they drift apart.
+
+/**
+ * Maps a segment flag to a variant.
+ */
+export interface VariantRule {
+  /**
+   * Pendo segment flag key the visitor must match.
+   */
+  segmentFlag: string;
+
+  /**
+   * Name of the variant served when the visitor matches.
+   */
+  variant: string;
+}
+
+/**
+ * Typed variants for a flag, selected by the visitor's segment flags.
+ *
+ * @example
+ * ```typescript
+ * // Two variants selected by the segment flag of the same name
+ * { variants: { on: "dark", off: "light" } }
+ *
+ * // Several segment flags, checked in order
+ * {
+ *   variants: { premium: "gold", beta: "purple", standard: "blue" },
+ *   rules: [
+ *     { segmentFlag: "premium-customers", variant: "premium" },
+ *     { segmentFlag: "beta-testers", variant: "beta" },
+ *   ],
+ *   defaultVariant: "standard",
+ * }
+ * ```
+ */
+export interface FlagDefinition {
+  /**
+   * Variant name to value.
+   */
+  variants: Record<string, JsonValue>;
+
+  /**
+   * Rules checked in order; the first segment flag the visitor matches
+   * selects the variant.
+   * Default: [{ segmentFlag: <flag key>, variant: "on" }]
+   */
+  rules?: VariantRule[];
+
+  /**
+   * Variant served when no rule matches. When it isn't one of the variants,
+   * the caller's default value is returned instead.
+   * Default: "off"
+   */
+  defaultVariant?: string;
+}
+
+/**
+ * Flag key to definition.
+ */
+export type FlagDefinitions = Record<string, FlagDefinition>;
+
+/**
+ * How strictly resolved values are checked against the requested type:
+ * - "lenient": Flags without a definition are coerced to the requested type
+ *   ("on"/"off", 1/0, { enabled }); variants must have the requested type
+ * - "strict": Flags without a definition can only be evaluated as booleans,
+ *   and object variants must also have the shape of the default value
+ */
+export type TypeCheckMode = "strict" | "lenient";
+
+export interface VariantMatch {
+  variant: string;
+  value: JsonValue;
+
+  /**
+   * Whether a rule matched, as opposed to falling back to the default variant.
+   */
+  matched: boolean;
+}
+
+/**
+ * Check that every rule and explicit default variant names a defined variant.
+ *
+ * @throws Error describing the first invalid definition
+ */
+export function validateFlagDefinitions(definitions: FlagDefinitions): void {
+  for (const [flagKey, definition] of Object.entries(definitions)) {
+    const variants = definition.variants ?? {};
+    const names = [
+      ...(definition.rules ?? []).map((rule) => rule.variant),
+      ...(definition.defaultVariant !== undefined ? [definition.defaultVariant] : []),
+    ];
+
+    for (const name of names) {
+      if (!Object.prototype.hasOwnProperty.call(variants, name)) {
+        throw new Error(`flagDefinitions["${flagKey}"] refers to undefined variant "${name}"`);
+      }
+    }
+  }
+}
+
+/**
+ * Select the variant for a visitor's segment flags.
+ *
+ * @returns The matched or default variant, or undefined if no rule matches
+ * and there is no default variant
+ */
+export function matchVariant(
+  flagKey: string,
+  definition: FlagDefinition,
+  segmentFlags: string[]
+): VariantMatch | undefined {
+  const rules = definition.rules ?? [{ segmentFlag: flagKey, variant: "on" }];
+  for (const rule of rules) {
+    if (segmentFlags.includes(rule.segmentFlag) && hasVariant(definition, rule.variant)) {
+      return { variant: rule.variant, value: definition.variants[rule.variant], matched: true };
+    }
+  }
+
+  const defaultVariant = definition.defaultVariant ?? "off";
+  if (hasVariant(definition, defaultVariant)) {
+    return {
+      variant: defaultVariant,
+      value: definition.variants[defaultVariant],
+      matched: false,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether a value can be returned for an evaluation of the given type.
+ */
+export function isValueOfType(value: JsonValue, type: FlagValueType): boolean {
+  if (type === "object") {
+    return typeof value === "object" && value !== null;
+  }
+  return typeof value === type;
+}
+
+/**
+ * Whether a value has the shape of the default value: both arrays, or both
+ * objects with every field of the default present with a value of the same
+ * type. Fields that are null in the default accept any value.
+ */
+export function matchesShape(value: JsonValue, defaultValue: JsonValue): boolean {
+  if (jsonType(value) !== jsonType(defaultValue)) {
+    return false;
+  }
+  if (jsonType(defaultValue) !== "object") {
+    return true;
+  }
+
+  const fields = value as Record<string, JsonValue>;
+  return Object.entries(defaultValue as Record<string, JsonValue>).every(
+    ([key, field]) =>
+      field === null ||
+      (Object.prototype.hasOwnProperty.call(fields, key) &&
+        jsonType(fields[key]) === jsonType(field))
+  );
+}
+
+function jsonType(value: JsonValue): string {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function hasVariant(definition: FlagDefinition, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(definition.variants, name);
+}
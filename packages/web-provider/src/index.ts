@@ -1,4 +1,13 @@
 export { PendoProvider } from "./PendoProvider";
 export type { PendoProviderOptions } from "./PendoProvider";
+export type {
+  FlagDefinition,
+  FlagDefinitions,
+  TypeCheckMode,
+  VariantRule,
+} from "./flagDefinitions";
+export { BOOTSTRAP_GLOBAL } from "./bootstrap";
+export type { PendoBootstrap } from "./bootstrap";
 export { PendoTelemetryHook } from "./PendoTelemetryHook";
 export type { PendoTelemetryHookOptions } from "./PendoTelemetryHook";
+export type { LogFields, LogLevel, LoggerOptions, PendoLogger } from "./logger";
@@ -13,12 +13,15 @@ declare global {
     pendo?: {
       segmentFlags?: string[] | null;
       isReady?: () => boolean;
+      getVisitorId?: () => string | undefined;
+      isAnonymousVisitor?: (visitorId?: string) => boolean;
       initialize?: (options: unknown) => void;
       track?: (event: string, properties?: Record<string, string>) => void;
       Events?: {
         segmentFlagsUpdated?: PendoEventEmitter;
       };
     };
+    __PENDO_FLAGS_BOOTSTRAP__?: unknown;
   }
 }
 
@@ -2,7 +2,7 @@
  * @jest-environment jsdom
  */
 import { PendoProvider } from "../src/PendoProvider";
-import { ClientProviderStatus, ProviderEvents } from "@openfeature/web-sdk";
+import { ClientProviderStatus, ErrorCode, ProviderEvents } from "@openfeature/web-sdk";
 
 describe("PendoProvider", () => {
   let provider: PendoProvider;
@@ -278,6 +278,29 @@ describe("PendoProvider", () => {
       expect(result.reason).toBe("DEFAULT");
       expect(result.variant).toBe("off");
     });
+
+    it("returns PARSE_ERROR when segmentFlags is malformed", () => {
+      jest.spyOn(console, "warn").mockImplementation();
+      (window as any).pendo.segmentFlags = "feature-a";
+
+      const result = provider.resolveBooleanEvaluation("feature-a", true, {});
+
+      expect(result.value).toBe(true);
+      expect(result.reason).toBe("ERROR");
+      expect(result.errorCode).toBe(ErrorCode.PARSE_ERROR);
+      expect(result.errorMessage).toBe("Pendo segmentFlags is not a list of flag keys");
+    });
+
+    it("returns PROVIDER_NOT_READY after the provider is closed", async () => {
+      jest.spyOn(console, "warn").mockImplementation();
+      await provider.onClose();
+
+      const result = provider.resolveBooleanEvaluation("feature-a", false, {});
+
+      expect(result.value).toBe(false);
+      expect(result.reason).toBe("ERROR");
+      expect(result.errorCode).toBe(ErrorCode.PROVIDER_NOT_READY);
+    });
   });
 
   describe("resolveStringEvaluation", () => {
@@ -311,6 +334,17 @@ describe("PendoProvider", () => {
       expect(result.value).toBe("my-default");
       expect(result.reason).toBe("DEFAULT");
     });
+
+    it("returns the default with the error code when evaluation fails", () => {
+      jest.spyOn(console, "warn").mockImplementation();
+      const uninitialized = new PendoProvider();
+
+      const result = uninitialized.resolveStringEvaluation("feature-a", "my-default", {});
+
+      expect(result.value).toBe("my-default");
+      expect(result.reason).toBe("ERROR");
+      expect(result.errorCode).toBe(ErrorCode.PROVIDER_NOT_READY);
+    });
   });
 
   describe("resolveNumberEvaluation", () => {
@@ -377,6 +411,320 @@ describe("PendoProvider", () => {
     });
   });
 
+  describe("flag definitions", () => {
+    beforeEach(async () => {
+      (window as any).pendo = {
+        isReady: () => true,
+        segmentFlags: ["theme", "mobile-users"],
+      };
+      provider = new PendoProvider({
+        flagDefinitions: {
+          theme: { variants: { on: "dark", off: "light" } },
+          "page-size": {
+            variants: { large: 50, small: 10 },
+            rules: [
+              { segmentFlag: "power-users", variant: "large" },
+              { segmentFlag: "mobile-users", variant: "small" },
+            ],
+          },
+          banner: { variants: { on: "new" } },
+        },
+      });
+      await provider.initialize();
+    });
+
+    it("serves the variant of the first matching rule", () => {
+      expect(provider.resolveStringEvaluation("theme", "default", {})).toEqual({
+        value: "dark",
+        reason: "TARGETING_MATCH",
+        variant: "on",
+      });
+      expect(provider.resolveNumberEvaluation("page-size", 20, {})).toEqual({
+        value: 10,
+        reason: "TARGETING_MATCH",
+        variant: "small",
+      });
+    });
+
+    it("serves the default variant when no rule matches", () => {
+      (window as any).pendo.segmentFlags = [];
+
+      expect(provider.resolveStringEvaluation("theme", "default", {})).toEqual({
+        value: "light",
+        reason: "DEFAULT",
+        variant: "off",
+      });
+    });
+
+    it("returns the caller default when there is no default variant", () => {
+      (window as any).pendo.segmentFlags = [];
+
+      const result = provider.resolveStringEvaluation("banner", "old", {});
+
+      expect(result.value).toBe("old");
+      expect(result.variant).toBe("default");
+    });
+
+    it("returns the caller default when pendo is unavailable", () => {
+      delete (window as any).pendo;
+
+      const result = provider.resolveStringEvaluation("theme", "default", {});
+
+      expect(result.value).toBe("default");
+      expect(result.reason).toBe("DEFAULT");
+    });
+
+    it("returns TYPE_MISMATCH when the variant has another type", () => {
+      jest.spyOn(console, "warn").mockImplementation();
+
+      const result = provider.resolveBooleanEvaluation("theme", false, {});
+
+      expect(result.value).toBe(false);
+      expect(result.reason).toBe("ERROR");
+      expect(result.errorCode).toBe(ErrorCode.TYPE_MISMATCH);
+    });
+
+    it("throws on definitions referring to undefined variants", () => {
+      expect(
+        () =>
+          new PendoProvider({
+            flagDefinitions: { theme: { variants: { on: "dark" }, defaultVariant: "light" } },
+          })
+      ).toThrow('flagDefinitions["theme"] refers to undefined variant "light"');
+    });
+  });
+
+  describe("type checking", () => {
+    beforeEach(async () => {
+      (window as any).pendo = {
+        isReady: () => true,
+        segmentFlags: ["feature-a", "limits"],
+      };
+      provider = new PendoProvider({
+        typeCheck: "strict",
+        flagDefinitions: {
+          limits: { variants: { on: { seats: 100 }, off: { seats: 5 } } },
+        },
+      });
+      await provider.initialize();
+    });
+
+    it("returns TYPE_MISMATCH for non-boolean evaluations of flags without a definition", () => {
+      jest.spyOn(console, "warn").mockImplementation();
+
+      const results = [
+        provider.resolveStringEvaluation("feature-a", "default", {}),
+        provider.resolveNumberEvaluation("feature-a", 0, {}),
+        provider.resolveObjectEvaluation("feature-a", {}, {}),
+      ];
+
+      for (const result of results) {
+        expect(result.reason).toBe("ERROR");
+        expect(result.errorCode).toBe(ErrorCode.TYPE_MISMATCH);
+      }
+      expect(results.map((result) => result.value)).toEqual(["default", 0, {}]);
+      expect(provider.resolveBooleanEvaluation("feature-a", false, {}).value).toBe(true);
+    });
+
+    it("checks object variants against the shape of the default value", () => {
+      jest.spyOn(console, "warn").mockImplementation();
+
+      expect(provider.resolveObjectEvaluation("limits", { seats: 0 }, {}).value).toEqual({
+        seats: 100,
+      });
+
+      const result = provider.resolveObjectEvaluation("limits", { seats: 0, storageGb: 10 }, {});
+
+      expect(result.value).toEqual({ seats: 0, storageGb: 10 });
+      expect(result.errorCode).toBe(ErrorCode.TYPE_MISMATCH);
+    });
+  });
+
+  describe("bootstrap", () => {
+    const bootstrap = { visitorId: "user-123", flags: ["flag1", "flag2"] };
+
+    afterEach(async () => {
+      delete window.__PENDO_FLAGS_BOOTSTRAP__;
+      await provider.onClose();
+    });
+
+    it("resolves from the bootstrap with reason CACHED before Pendo loads", async () => {
+      jest.useFakeTimers();
+      provider = new PendoProvider({ bootstrap });
+
+      await provider.initialize();
+
+      expect(provider.status).toBe(ClientProviderStatus.READY);
+      expect(provider.resolveBooleanEvaluation("flag1", false, {})).toEqual({
+        value: true,
+        reason: "CACHED",
+        variant: "on",
+      });
+      expect(provider.resolveBooleanEvaluation("flag3", true, {})).toEqual({
+        value: false,
+        reason: "CACHED",
+        variant: "off",
+      });
+      expect(provider.resolveStringEvaluation("flag3", "default", {})).toEqual({
+        value: "default",
+        reason: "CACHED",
+        variant: "default",
+      });
+    });
+
+    it("reads the bootstrap from the page global", async () => {
+      jest.useFakeTimers();
+      window.__PENDO_FLAGS_BOOTSTRAP__ = bootstrap;
+      provider = new PendoProvider();
+
+      await provider.initialize();
+
+      expect(provider.resolveBooleanEvaluation("flag2", false, {}).reason).toBe("CACHED");
+    });
+
+    it("ignores an invalid bootstrap", async () => {
+      jest.useFakeTimers();
+      jest.spyOn(console, "warn").mockImplementation();
+      window.__PENDO_FLAGS_BOOTSTRAP__ = { visitorId: "user-123", flags: "flag1" };
+      (window as any).pendo = { isReady: () => true, segmentFlags: ["flag1"] };
+      provider = new PendoProvider();
+
+      await provider.initialize();
+
+      expect(provider.resolveBooleanEvaluation("flag1", false, {}).reason).toBe(
+        "TARGETING_MATCH"
+      );
+      expect(console.warn).toHaveBeenCalledWith("[PendoProvider] Ignoring invalid bootstrap payload");
+    });
+
+    it("switches to Pendo flags once ready and emits ConfigurationChanged", async () => {
+      jest.useFakeTimers();
+      provider = new PendoProvider({ bootstrap });
+      const eventSpy = jest.fn();
+      provider.events.addHandler(ProviderEvents.ConfigurationChanged, eventSpy);
+
+      await provider.initialize();
+      (window as any).pendo = { isReady: () => true, segmentFlags: ["flag2", "flag3"] };
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(provider.resolveBooleanEvaluation("flag3", false, {})).toEqual({
+        value: true,
+        reason: "TARGETING_MATCH",
+        variant: "on",
+      });
+      expect(eventSpy).toHaveBeenCalledTimes(1);
+      expect(eventSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ flagsChanged: ["flag3", "flag1"] })
+      );
+    });
+
+    it("does not emit ConfigurationChanged when Pendo agrees with the bootstrap", async () => {
+      jest.useFakeTimers();
+      provider = new PendoProvider({ bootstrap });
+      const eventSpy = jest.fn();
+      provider.events.addHandler(ProviderEvents.ConfigurationChanged, eventSpy);
+
+      await provider.initialize();
+      (window as any).pendo = { isReady: () => true, segmentFlags: ["flag2", "flag1"] };
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(provider.resolveBooleanEvaluation("flag1", false, {}).reason).toBe(
+        "TARGETING_MATCH"
+      );
+      expect(eventSpy).not.toHaveBeenCalled();
+    });
+
+    it("keeps serving the bootstrap when Pendo times out", async () => {
+      jest.useFakeTimers();
+      jest.spyOn(console, "warn").mockImplementation();
+      provider = new PendoProvider({ bootstrap, readyTimeout: 500 });
+
+      await provider.initialize();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(provider.resolveBooleanEvaluation("flag1", false, {}).reason).toBe("CACHED");
+    });
+
+    it("drops the bootstrap once Pendo identifies another visitor", async () => {
+      jest.useFakeTimers();
+      jest.spyOn(console, "warn").mockImplementation();
+      provider = new PendoProvider({ bootstrap });
+      const eventSpy = jest.fn();
+      provider.events.addHandler(ProviderEvents.ConfigurationChanged, eventSpy);
+
+      await provider.initialize();
+      (window as any).pendo = { getVisitorId: () => "user-456" };
+
+      expect(provider.resolveBooleanEvaluation("flag1", false, {})).toEqual({
+        value: false,
+        reason: "DEFAULT",
+        variant: "default",
+      });
+      expect(console.warn).toHaveBeenCalledWith(
+        "[PendoProvider] Ignoring bootstrap payload for another visitor"
+      );
+      expect(eventSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ flagsChanged: ["flag1", "flag2"] })
+      );
+    });
+
+    it("ignores a bootstrap for another visitor than the one Pendo identified", async () => {
+      jest.useFakeTimers();
+      jest.spyOn(console, "warn").mockImplementation();
+      (window as any).pendo = {
+        isReady: () => true,
+        getVisitorId: () => "user-456",
+        segmentFlags: ["flag3"],
+      };
+      provider = new PendoProvider({ bootstrap });
+
+      await provider.initialize();
+
+      expect(provider.resolveBooleanEvaluation("flag1", false, {}).reason).toBe("DEFAULT");
+      expect(provider.resolveBooleanEvaluation("flag3", false, {}).reason).toBe(
+        "TARGETING_MATCH"
+      );
+      expect(console.warn).toHaveBeenCalledWith(
+        "[PendoProvider] Ignoring bootstrap payload for another visitor"
+      );
+    });
+
+    it("keeps serving the bootstrap to the same or an anonymous visitor", async () => {
+      jest.useFakeTimers();
+      provider = new PendoProvider({ bootstrap });
+
+      await provider.initialize();
+      (window as any).pendo = {
+        getVisitorId: () => "_PENDO_T_abc123",
+        isAnonymousVisitor: (visitorId: string) => visitorId.startsWith("_PENDO_T_"),
+      };
+      expect(provider.resolveBooleanEvaluation("flag1", false, {}).reason).toBe("CACHED");
+
+      (window as any).pendo = { getVisitorId: () => "user-123" };
+      expect(provider.resolveBooleanEvaluation("flag1", false, {}).reason).toBe("CACHED");
+    });
+
+    it("switches when Pendo reports updated flags after a timeout", async () => {
+      jest.useFakeTimers();
+      jest.spyOn(console, "warn").mockImplementation();
+      const mockEvents = createMockEvents();
+      provider = new PendoProvider({ bootstrap, readyTimeout: 500 });
+      const eventSpy = jest.fn();
+      provider.events.addHandler(ProviderEvents.ConfigurationChanged, eventSpy);
+
+      await provider.initialize();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      (window as any).pendo = { Events: mockEvents };
+      document.dispatchEvent(new Event("pendo_ready"));
+      (window as any).pendo.segmentFlags = ["flag1"];
+      mockEvents.segmentFlagsUpdated.trigger();
+
+      expect(provider.resolveBooleanEvaluation("flag2", false, {}).reason).toBe("DEFAULT");
+      expect(eventSpy).toHaveBeenCalledWith(expect.objectContaining({ flagsChanged: ["flag2"] }));
+    });
+  });
+
   describe("track", () => {
     let mockTrack: jest.Mock;
     let consoleWarnSpy: jest.SpyInstance;
@@ -467,11 +815,13 @@ describe("PendoProvider", () => {
       expect(result.variant).toBe("off");
     });
 
-    it("handles SSR environment (no window)", () => {
+    it("handles SSR environment (no window)", async () => {
+      jest.spyOn(console, "warn").mockImplementation();
       const originalWindow = global.window;
       delete (global as any).window;
 
-      const ssrProvider = new PendoProvider();
+      const ssrProvider = new PendoProvider({ readyTimeout: 0 });
+      await ssrProvider.initialize();
       const result = ssrProvider.resolveBooleanEvaluation("flag", true, {});
 
       expect(result.value).toBe(true);
@@ -0,0 +1,23 @@
+import { isPendoBootstrap } from "../src/bootstrap";
+
+describe("isPendoBootstrap", () => {
+  it("accepts payloads with a visitor ID and a list of flag keys", () => {
+    expect(isPendoBootstrap({ visitorId: "user-123", flags: [] })).toBe(true);
+    expect(
+      isPendoBootstrap({
+        visitorId: "user-123",
+        accountId: "account-456",
+        flags: ["flag1"],
+        fetchedAt: 1700000000000,
+      })
+    ).toBe(true);
+  });
+
+  it("rejects anything else", () => {
+    expect(isPendoBootstrap(undefined)).toBe(false);
+    expect(isPendoBootstrap("flag1")).toBe(false);
+    expect(isPendoBootstrap({ flags: ["flag1"] })).toBe(false);
+    expect(isPendoBootstrap({ visitorId: "user-123", flags: "flag1" })).toBe(false);
+    expect(isPendoBootstrap({ visitorId: "user-123", flags: [1] })).toBe(false);
+  });
+});
@@ -0,0 +1,24 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+
+/**
+ * Modules both providers ship. The server provider holds the source; these
+ * copies must match it apart from the OpenFeature SDK they import from. Their
+ * tests live in the server provider.
+ */
+const SHARED_SOURCES = ["logger.ts", "flagDefinitions.ts"];
+
+const readSource = (pkg: string, file: string) =>
+  readFileSync(join(__dirname, "..", "..", pkg, "src", file), "utf8");
+
+describe("shared sources", () => {
+  it.each(SHARED_SOURCES)("src/%s matches the server provider's copy", (file) => {
+    const server = readSource("server-provider", file);
+    const web = readSource("web-provider", file).replace(
+      /"@openfeature\/web-sdk"/g,
+      '"@openfeature/server-sdk"'
+    );
+
+    expect(web).toBe(server);
+  });
+});